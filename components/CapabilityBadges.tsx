@@ -0,0 +1,31 @@
+import React, { FC } from 'react';
+import { ModelCapability } from '../services/llmProvider';
+
+export const CAPABILITY_LABELS: Record<ModelCapability, string> = {
+  vision: 'Vision',
+  tools: 'Tools',
+  thinking: 'Thinking',
+};
+
+const CAPABILITY_HINTS: Record<ModelCapability, string> = {
+  vision: 'Can look at attached pictures',
+  tools: 'Can call tools',
+  thinking: 'Can reason before answering',
+};
+
+/** Small chips naming what a model can do beyond plain chat. */
+const CapabilityBadges: FC<{ capabilities: ModelCapability[] }> = ({ capabilities }) => (
+  <>
+    {capabilities.map((capability) => (
+      <span
+        key={capability}
+        title={CAPABILITY_HINTS[capability]}
+        className="shrink-0 px-2 py-0.5 text-xs rounded-full border border-accent/30 text-accent/80"
+      >
+        {CAPABILITY_LABELS[capability]}
+      </span>
+    ))}
+  </>
+);
+
+export default CapabilityBadges;
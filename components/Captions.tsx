@@ -0,0 +1,70 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface CaptionsProps {
+  /** True during a listening turn; the user's caption only shows then. */
+  listening: boolean;
+  /** What the recognizer has heard so far this turn. */
+  userText: string;
+  /** The sentence being spoken now, or '' between sentences and after the reply. */
+  assistantText: string;
+  /** Show the assistant's captions as well as the user's. */
+  showAssistant: boolean;
+}
+
+// Spoken sentences kept on screen, newest last; older ones scroll up and fade.
+const MAX_LINES = 3;
+// The captions stay up this long after the voice stops, so the last sentence
+// can be finished reading, and survive the brief gaps while a slow model is
+// still producing the next sentence.
+const LINGER_MS = 4000;
+
+/** Subtitles for both sides of the conversation, like a live caption track. */
+const Captions: React.FC<CaptionsProps> = ({ listening, userText, assistantText, showAssistant }) => {
+  const [lines, setLines] = useState<{ id: number; text: string }[]>([]);
+  const nextIdRef = useRef(0);
+
+  useEffect(() => {
+    if (!assistantText) {
+      const timer = setTimeout(() => setLines([]), LINGER_MS);
+      return () => clearTimeout(timer);
+    }
+    setLines((prev) => [...prev, { id: nextIdRef.current++, text: assistantText }].slice(-MAX_LINES));
+  }, [assistantText]);
+
+  // A new question starts a fresh caption track.
+  useEffect(() => {
+    if (listening) setLines([]);
+  }, [listening]);
+
+  const showUser = listening;
+  const showLines = showAssistant && lines.length > 0;
+  if (!showUser && !showLines) return null;
+
+  return (
+    <div aria-live="polite" className="w-full max-w-xl flex flex-col items-center gap-1 text-center">
+      {showLines && (
+        <div className="flex flex-col items-center gap-0.5">
+          {lines.map((line, i) => (
+            <p
+              key={line.id}
+              className={`px-3 py-0.5 rounded bg-black/60 backdrop-blur-sm transition-opacity duration-300 ${
+                i === lines.length - 1 && assistantText
+                  ? 'text-white text-base sm:text-lg'
+                  : 'text-gray-300/70 text-sm'
+              }`}
+            >
+              {line.text}
+            </p>
+          ))}
+        </div>
+      )}
+      {showUser && (
+        <p className="px-3 py-1 rounded bg-black/60 backdrop-blur-sm text-cyan text-base sm:text-lg">
+          {userText || <span className="text-cyan/60 italic">Listening…</span>}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default Captions;
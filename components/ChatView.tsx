@@ -1,11 +1,36 @@
-import React, { useEffect, useState } from 'react';
-import { MessageRole } from '../types';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ChatMessage, MessageRole, ReplyOptions } from '../types';
 import { useSettings } from '../context/SettingsContext';
 import { useSpeech } from '../hooks/useSpeech';
-import { generateChatStream } from '../services/ollama';
+import { useConversation } from '../hooks/useConversation';
+import { useReplyPhase, toAssistantState } from '../hooks/useReplyPhase';
+import { useTabLeader } from '../hooks/useTabLeader';
+import { createSpeechSegmenter } from '../services/speechSegmenter';
+import { normalizeForCaption, normalizeForSpeech } from '../services/speechNormalizer';
+import { findPersonaSwitch, greetingFor } from '../services/personas';
+import { CONTEXT_WARNING_RATIO, contextUsage, contextWindow } from '../services/contextBudget';
+import { withLanguageInstruction } from './speechLanguages';
 import Hologram from './Hologram';
+import MicLevelMeter from './MicLevelMeter';
+import Captions from './Captions';
+import Markdown from './Markdown';
+import HistoryPanel from './HistoryPanel';
+import ConversationThread from './ConversationThread';
 import { MicIcon } from './icons/MicIcon';
 import { SendIcon } from './icons/SendIcon';
+import { ImageIcon } from './icons/ImageIcon';
+
+const pillButtonStyles =
+  'px-2 py-0.5 rounded-full border border-accent/30 text-accent/80 hover:text-cyan hover:border-cyan transition-colors';
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
 
 interface ChatViewProps {
   /** False while another tab is showing; the view stays mounted but must not hold the microphone. */
@@ -13,55 +38,322 @@ interface ChatViewProps {
 }
 
 const ChatView: React.FC<ChatViewProps> = ({ active = true }) => {
-  const { selectedModel, ollamaUrl, systemPrompt, temperature, triggerWord, connectionError, backdropTheme } = useSettings();
+  const {
+    selectedModel,
+    provider,
+    systemPrompt,
+    temperature,
+    think,
+    sampling,
+    modelDetails,
+    triggerWord,
+    wakeWordSensitivity,
+    followUpSeconds,
+    voice,
+    language,
+    respondInLanguage,
+    sttEngine,
+    whisperUrl,
+    vad,
+    ttsEngine,
+    ttsUrl,
+    captions,
+    connectionError,
+    backdropTheme,
+    personas,
+    activePersonaId,
+    switchPersona,
+  } = useSettings();
+  const activePersona = personas.find((persona) => persona.id === activePersonaId);
   const [textInput, setTextInput] = useState('');
   const [lastReply, setLastReply] = useState('');
+  const { replyPhase, isReplying, replyEvent } = useReplyPhase();
+  const [replyInterrupted, setReplyInterrupted] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isThreadOpen, setIsThreadOpen] = useState(false);
+  // A picture to send with the next question, as a data: URL; vision models only.
+  const [pendingImage, setPendingImage] = useState<string | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const canSeeImages = !!modelDetails[selectedModel]?.capabilities.includes('vision');
+  // Another tab holding the microphone leaves this one to text and captions.
+  const isLeader = useTabLeader();
+  const {
+    conversation,
+    messages,
+    addMessage,
+    appendToLastMessage,
+    updateLastMessage,
+    removeLastMessage,
+    branchMessage,
+    replaceLastReply,
+    switchVersion,
+    newConversation,
+    openConversation,
+  } = useConversation(selectedModel, activePersona?.name);
 
-  const sendMessage = (text: string) => {
-    const trimmed = text.trim();
-    if (!trimmed) return;
+  // The reply currently streaming, if any. Kept in a ref because barge-in and
+  // the Stop button reach it from callbacks that outlive the render that
+  // started it.
+  const replyRef = useRef<{ controller: AbortController; received: boolean } | null>(null);
+  // Set when a question arrives by voice. Once its answer has been read out,
+  // the assistant listens for a follow-up instead of waiting for the wake word.
+  const awaitingFollowUpRef = useRef(false);
+  const replyBoxRef = useRef<HTMLDivElement>(null);
+  const followReplyRef = useRef(true);
+
+  /** Stops the streaming reply for real, keeping what arrived so far marked as interrupted. */
+  const cancelReply = useCallback(() => {
+    const reply = replyRef.current;
+    if (!reply) return;
+    replyRef.current = null;
+    reply.controller.abort();
+    replyEvent('cancel');
+    if (reply.received) {
+      updateLastMessage((message) => ({ ...message, interrupted: true }));
+      setReplyInterrupted(true);
+    } else {
+      removeLastMessage();
+    }
+  }, [updateLastMessage, removeLastMessage, replyEvent]);
+
+  /** Voices finished segments of a reply. The screen keeps the Markdown; the voice gets plain speech, the captions plain text. */
+  const speakSegments = (segments: string[]) => {
+    segments.forEach((segment) => speechHook.speak(normalizeForSpeech(segment), normalizeForCaption(segment)));
+  };
+
+  /** Clears the way for a new reply: the stream feeding the old one stops, and so does its voice. */
+  const supersedeReply = () => {
+    cancelReply();
+    speechHook.cancelSpeech();
     setLastReply('');
-    generateChatStream(
-      ollamaUrl,
-      selectedModel,
-      [{ role: MessageRole.USER, content: trimmed }],
-      systemPrompt,
-      temperature,
-      (chunk) => {
+    setReplyInterrupted(false);
+  };
+
+  /**
+   * Streams the model's answer to `history` into the newest turn, which the
+   * caller has just added as an empty assistant reply.
+   */
+  const streamReply = (history: ChatMessage[], options: ReplyOptions = {}) => {
+    const reply = { controller: new AbortController(), received: false };
+    // Chunks are cut wherever the tokenizer cut them; the voice gets whole
+    // sentences, starting with the first complete clause.
+    const segmenter = createSpeechSegmenter(language || undefined);
+    replyRef.current = reply;
+    replyEvent('send');
+    const finish = (outcome: 'done' | 'fail') => {
+      if (replyRef.current !== reply) return false;
+      replyRef.current = null;
+      replyEvent(outcome);
+      return true;
+    };
+    const model = options.model || selectedModel;
+    provider.chatStream({
+      model,
+      messages: history,
+      systemPrompt: withLanguageInstruction(systemPrompt, language, respondInLanguage),
+      temperature: options.temperature ?? temperature,
+      sampling,
+      ...(modelDetails[model]?.capabilities.includes('thinking') ? { think } : {}),
+      onChunk: (chunk) => {
+        if (reply.controller.signal.aborted) return;
+        reply.received = true;
+        replyEvent('token');
         setLastReply((prev) => prev + chunk);
-        speechHook.speak(chunk);
+        appendToLastMessage(chunk);
+        speakSegments(segmenter.push(chunk));
+      },
+      onClose: () => {
+        if (finish('done')) speakSegments(segmenter.flush());
       },
-      () => {},
-      () => {
+      onError: () => {
+        if (!finish('fail')) return;
+        // Keep whatever part of the answer did arrive; an empty turn would
+        // only teach the model that it once said nothing.
+        if (!reply.received) removeLastMessage();
         const errorMessage = 'Sorry, I encountered an error.';
         setLastReply(errorMessage);
         speechHook.speak(errorMessage);
-      }
-    );
+      },
+      signal: reply.controller.signal,
+    });
+  };
+
+  const sendMessage = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    // A new message supersedes whatever the assistant was still saying.
+    supersedeReply();
+    // The model sees the whole conversation so far, so follow-ups like "and
+    // the second one?" resolve against its earlier answers.
+    const images = pendingImage && canSeeImages ? [pendingImage] : undefined;
+    setPendingImage(null);
+    const history = addMessage({ role: MessageRole.USER, content: trimmed, ...(images ? { images } : {}) });
+    addMessage({ role: MessageRole.ASSISTANT, content: '' });
+    streamReply(history);
+  };
+
+  /** Asks for the newest answer again, keeping the old one as another version. */
+  const regenerate = (options: ReplyOptions = {}) => {
+    awaitingFollowUpRef.current = false;
+    supersedeReply();
+    const model = options.model || selectedModel;
+    const history = replaceLastReply({
+      role: MessageRole.ASSISTANT,
+      content: '',
+      ...(model !== selectedModel ? { model } : {}),
+    });
+    if (history.length > 0) streamReply(history, options);
+  };
+
+  /** Rewrites an earlier question and asks it again; the old question and its answers stay as another version. */
+  const editMessage = (index: number, text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    awaitingFollowUpRef.current = false;
+    supersedeReply();
+    // The edited question keeps any picture the original came with.
+    const { images } = messages[index];
+    const history = branchMessage(index, { role: MessageRole.USER, content: trimmed, ...(images ? { images } : {}) });
+    addMessage({ role: MessageRole.ASSISTANT, content: '' });
+    streamReply(history);
+  };
+
+  /** Puts the newest answer in `history` back on screen, e.g. after opening or flipping to another version. */
+  const showLastAnswer = (history: ChatMessage[]) => {
+    const lastAnswer = [...history].reverse().find((message) => message.role === MessageRole.ASSISTANT);
+    setLastReply(lastAnswer?.content ?? '');
+    setReplyInterrupted(!!lastAnswer?.interrupted);
+  };
+
+  const handleSwitchVersion = (index: number, version: number) => {
+    awaitingFollowUpRef.current = false;
+    supersedeReply();
+    showLastAnswer(switchVersion(index, version));
+  };
+
+  /** The Stop button: ends both the stream and the voice reading it out. */
+  const handleStop = () => {
+    awaitingFollowUpRef.current = false;
+    cancelReply();
+    speechHook.cancelSpeech();
+  };
+
+  const handleNewConversation = () => {
+    awaitingFollowUpRef.current = false;
+    cancelReply();
+    speechHook.stop();
+    setLastReply('');
+    setReplyInterrupted(false);
+    newConversation();
+  };
+
+  /** Shows a conversation from the history, with its last answer on screen as if it had just been given. */
+  const handleOpenConversation = async (id: string) => {
+    awaitingFollowUpRef.current = false;
+    cancelReply();
+    speechHook.cancelSpeech();
+    setIsHistoryOpen(false);
+    const opened = await openConversation(id);
+    if (opened) showLastAnswer(opened.messages);
+  };
+
+  const handleConversationDeleted = (id: string) => {
+    if (id !== conversation.id) return;
+    awaitingFollowUpRef.current = false;
+    cancelReply();
+    speechHook.cancelSpeech();
+    setLastReply('');
+    setReplyInterrupted(false);
+    newConversation(true);
   };
 
   const speechHook = useSpeech({
     triggerWord,
+    wakeWordSensitivity,
+    voice,
+    language,
+    sttEngine,
+    whisperUrl,
+    vad,
+    ttsEngine,
+    ttsUrl,
+    captionsOnly: captions === 'only' || !isLeader,
     onActivation: () => {
-      // Barge-in: cut off whatever the assistant is saying before listening.
+      // Barge-in: cut off whatever the assistant is saying, and the stream
+      // still feeding it, before listening.
+      awaitingFollowUpRef.current = false;
+      cancelReply();
       speechHook.stop();
       speechHook.startListening();
     },
-    onTranscript: sendMessage,
+    onTranscript: (transcript) => {
+      // "Switch to receptionist" is for the kiosk, not the model. The new
+      // persona greets the user (below) and its wake word takes over.
+      const persona = findPersonaSwitch(transcript, personas, wakeWordSensitivity);
+      if (persona) {
+        switchPersona(persona.id);
+        speechHook.startStandby();
+        return;
+      }
+      awaitingFollowUpRef.current = true;
+      sendMessage(transcript);
+    },
   });
 
   // These are stable across renders (the hook keeps the changing callbacks in
   // refs), so the effect below only re-runs when something real changes.
-  const { startStandby, stop, permissionError, speechState } = speechHook;
+  const { startStandby, startListening, stop, speak, cancelSpeech, permissionError, speechState, followUpEndsAt } =
+    speechHook;
 
   useEffect(() => {
-    if (!active || !selectedModel || connectionError || permissionError) {
+    if (!active || !isLeader || !selectedModel || connectionError || permissionError) {
       stop();
       return;
     }
     startStandby();
     return () => stop();
-  }, [active, selectedModel, connectionError, permissionError, startStandby, stop]);
+    // The engine settings are listed so that switching engine restarts standby
+    // on the new recognizer.
+  }, [active, isLeader, selectedModel, connectionError, permissionError, sttEngine, whisperUrl, startStandby, stop]);
+
+  // The answer to a spoken question is done, streamed and read out: keep the
+  // conversation going without the wake word, or go back to waiting for it.
+  useEffect(() => {
+    if (!active || isReplying || !awaitingFollowUpRef.current) return;
+    if (speechState === 'speaking' || speechState === 'listening') return;
+    awaitingFollowUpRef.current = false;
+    if (followUpSeconds > 0) startListening(followUpSeconds * 1000);
+    else startStandby();
+  }, [active, isReplying, speechState, followUpSeconds, startListening, startStandby]);
+
+  // A new persona introduces itself. This runs after the render that handed
+  // the speech hook the persona's voice, so the greeting is in that voice.
+  const greetedPersonaRef = useRef(activePersonaId);
+  useEffect(() => {
+    if (activePersonaId === greetedPersonaRef.current) return;
+    greetedPersonaRef.current = activePersonaId;
+    if (!active || !activePersona) return;
+    awaitingFollowUpRef.current = false;
+    cancelReply();
+    cancelSpeech();
+    const greeting = greetingFor(activePersona);
+    setLastReply(greeting);
+    setReplyInterrupted(false);
+    speak(greeting);
+  }, [active, activePersonaId, activePersona, cancelReply, cancelSpeech, speak]);
+
+  // Follow a streaming reply as it grows, unless the user has scrolled up to
+  // reread something.
+  useEffect(() => {
+    const box = replyBoxRef.current;
+    if (box && followReplyRef.current) box.scrollTop = box.scrollHeight;
+  }, [lastReply]);
+
+  // Switching to another view abandons the reply rather than letting it keep
+  // streaming into a hidden panel.
+  useEffect(() => {
+    if (!active) cancelReply();
+  }, [active, cancelReply]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -69,6 +361,20 @@ const ChatView: React.FC<ChatViewProps> = ({ active = true }) => {
     setTextInput('');
   };
 
+  const handleImagePicked = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Cleared so that picking the same file again still fires a change.
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPendingImage(await readAsDataUrl(file));
+    } catch (error) {
+      console.error('Failed to read the picture', error);
+    }
+  };
+
+  const usage = contextUsage(systemPrompt, messages, contextWindow(modelDetails[selectedModel], sampling.numCtx));
+
   const handleMicClick = () => {
     if (speechState === 'listening') {
       stop();
@@ -78,13 +384,13 @@ const ChatView: React.FC<ChatViewProps> = ({ active = true }) => {
   };
 
   const banner = permissionError || connectionError;
+  const listeningElsewhere = !isLeader && !banner;
 
   return (
     <>
       <Hologram
-        isListening={speechState === 'listening'}
-        isSpeaking={speechState === 'speaking'}
-        isIdle={speechState === 'idle'}
+        state={toAssistantState(speechState, replyPhase)}
+        followUpEndsAt={followUpEndsAt}
         backdropTheme={backdropTheme}
       />
 
@@ -109,20 +415,124 @@ const ChatView: React.FC<ChatViewProps> = ({ active = true }) => {
             )}
           </div>
         )}
+        {listeningElsewhere && (
+          <div className="w-full max-w-xl text-accent/80 text-xs sm:text-sm bg-black/60 px-4 py-2 rounded-2xl backdrop-blur-sm text-center">
+            Listening in another tab. Switch to it, or close it, to talk here; typed messages still work.
+          </div>
+        )}
+        {usage !== null && usage >= CONTEXT_WARNING_RATIO && (
+          <div className="w-full max-w-xl text-amber-300/90 text-xs sm:text-sm bg-black/60 px-4 py-2 rounded-2xl backdrop-blur-sm text-center">
+            {usage >= 1
+              ? 'This conversation is longer than the model can remember; it has lost track of the start. '
+              : `This conversation fills about ${Math.round(usage * 100)}% of what the model can remember. `}
+            Start a new conversation to keep answers on track.
+          </div>
+        )}
+        {(isReplying || speechState === 'speaking') && (
+          <button
+            type="button"
+            onClick={handleStop}
+            className="flex items-center gap-2 px-3 py-1 rounded-full text-xs text-red-300 bg-black/50 border border-red-400/40 hover:bg-red-500/20 hover:text-white transition-colors"
+          >
+            <span className="w-2 h-2 rounded-sm bg-current" aria-hidden="true" />
+            Stop
+          </button>
+        )}
+        <Captions
+          listening={speechState === 'listening'}
+          userText={speechHook.interimTranscript}
+          assistantText={speechHook.caption}
+          showAssistant={captions !== 'off'}
+        />
         {lastReply && (
-          <p className="text-accent/90 text-sm bg-black/40 px-4 py-2 rounded-lg backdrop-blur-sm max-w-xl max-h-32 overflow-y-auto text-center">
-            {lastReply}
-          </p>
+          <div
+            ref={replyBoxRef}
+            onScroll={(e) => {
+              const box = e.currentTarget;
+              followReplyRef.current = box.scrollHeight - box.scrollTop - box.clientHeight < 24;
+            }}
+            className="w-full max-w-xl text-accent/90 text-sm bg-black/40 px-4 py-2 rounded-lg backdrop-blur-sm max-h-[35dvh] overflow-y-auto break-words"
+          >
+            <Markdown text={lastReply} />
+            {replyInterrupted && <span className="text-accent/50 italic">(interrupted)</span>}
+          </div>
         )}
+        <div className="flex flex-wrap items-center justify-center gap-x-3 gap-y-1 text-xs text-accent/60">
+          {messages.length > 0 && (
+            <>
+              <span>{messages.length} {messages.length === 1 ? 'message' : 'messages'} in this conversation</span>
+              {!isReplying && (
+                <button
+                  type="button"
+                  onClick={() => regenerate()}
+                  className={pillButtonStyles}
+                >
+                  Regenerate
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setIsThreadOpen(true)}
+                className={pillButtonStyles}
+              >
+                Show all
+              </button>
+              <button
+                type="button"
+                onClick={handleNewConversation}
+                className={pillButtonStyles}
+              >
+                New conversation
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={() => setIsHistoryOpen(true)}
+            className={pillButtonStyles}
+          >
+            History
+          </button>
+        </div>
         <form onSubmit={handleSubmit} className="w-full max-w-xl flex items-center gap-2">
           <button
             type="button"
             onClick={handleMicClick}
+            disabled={!isLeader}
             aria-label={speechState === 'listening' ? 'Stop listening' : 'Start listening'}
-            className={`shrink-0 p-3 rounded-full transition-colors ${speechState === 'listening' ? 'bg-cyan text-primary' : 'bg-secondary/80 text-accent hover:bg-secondary'}`}
+            className={`shrink-0 p-3 rounded-full transition-colors disabled:opacity-40 ${speechState === 'listening' ? 'bg-cyan text-primary' : 'bg-secondary/80 text-accent hover:bg-secondary'}`}
           >
             <MicIcon className="w-5 h-5" />
           </button>
+          {canSeeImages && (
+            <>
+              <input ref={imageInputRef} type="file" accept="image/*" onChange={handleImagePicked} className="hidden" />
+              {pendingImage ? (
+                <button
+                  type="button"
+                  onClick={() => setPendingImage(null)}
+                  aria-label="Remove the attached picture"
+                  title="Remove the attached picture"
+                  className="relative shrink-0 w-11 h-11 rounded-full overflow-hidden border-2 border-cyan"
+                >
+                  <img src={pendingImage} alt="" className="w-full h-full object-cover" />
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => imageInputRef.current?.click()}
+                  aria-label="Attach a picture"
+                  title="Attach a picture to the next question"
+                  className="shrink-0 p-3 rounded-full bg-secondary/80 text-accent hover:bg-secondary transition-colors"
+                >
+                  <ImageIcon className="w-5 h-5" />
+                </button>
+              )}
+            </>
+          )}
+          {speechState === 'listening' && (
+            <MicLevelMeter getLevel={speechHook.micLevel} threshold={vad.enabled ? vad.threshold : undefined} />
+          )}
           <input
             type="text"
             value={textInput}
@@ -140,6 +550,24 @@ const ChatView: React.FC<ChatViewProps> = ({ active = true }) => {
           </button>
         </form>
       </div>
+
+      <ConversationThread
+        isOpen={isThreadOpen}
+        onClose={() => setIsThreadOpen(false)}
+        messages={messages}
+        busy={isReplying}
+        onEdit={editMessage}
+        onSwitchVersion={handleSwitchVersion}
+        onRegenerate={regenerate}
+      />
+
+      <HistoryPanel
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        activeId={conversation.id}
+        onOpen={handleOpenConversation}
+        onDeleted={handleConversationDeleted}
+      />
     </>
   );
 };
@@ -0,0 +1,232 @@
+import React, { FC, useEffect, useState } from 'react';
+import { ChatMessage, MessageRole, ReplyOptions } from '../types';
+import { useSettings } from '../context/SettingsContext';
+import { versionInfo } from '../services/messageBranches';
+import Markdown from './Markdown';
+
+interface ConversationThreadProps {
+  isOpen: boolean;
+  onClose: () => void;
+  messages: ChatMessage[];
+  /** A reply is streaming; versions stay put until it is done. */
+  busy: boolean;
+  onEdit: (index: number, text: string) => void;
+  onSwitchVersion: (index: number, version: number) => void;
+  onRegenerate: (options: ReplyOptions) => void;
+}
+
+const actionStyles =
+  'px-2 py-0.5 rounded-full border border-accent/30 text-accent/80 hover:text-cyan hover:border-cyan transition-colors disabled:opacity-40 disabled:pointer-events-none';
+
+const inputStyles =
+  'min-w-0 px-3 py-1.5 text-sm bg-primary/70 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan focus:border-cyan transition-colors';
+
+/** "‹ 2 / 3 ›" for a turn that has been regenerated or edited. */
+const VersionSwitcher: FC<{ message: ChatMessage; disabled: boolean; onSwitch: (version: number) => void }> = ({
+  message,
+  disabled,
+  onSwitch,
+}) => {
+  const { index, count } = versionInfo(message);
+  if (count < 2) return null;
+  return (
+    <span className="inline-flex items-center gap-1 text-xs text-accent/70">
+      <button
+        type="button"
+        disabled={disabled || index === 0}
+        onClick={() => onSwitch(index - 1)}
+        aria-label="Previous version"
+        className="px-1 hover:text-cyan disabled:opacity-30"
+      >
+        ‹
+      </button>
+      {index + 1} / {count}
+      <button
+        type="button"
+        disabled={disabled || index === count - 1}
+        onClick={() => onSwitch(index + 1)}
+        aria-label="Next version"
+        className="px-1 hover:text-cyan disabled:opacity-30"
+      >
+        ›
+      </button>
+    </span>
+  );
+};
+
+/**
+ * The whole conversation as a scrollable thread, where earlier questions can
+ * be edited and resent and answers regenerated. The chat view itself only
+ * shows the latest answer; this is for going back over one.
+ */
+const ConversationThread: FC<ConversationThreadProps> = ({
+  isOpen,
+  onClose,
+  messages,
+  busy,
+  onEdit,
+  onSwitchVersion,
+  onRegenerate,
+}) => {
+  const { availableModels, selectedModel, temperature } = useSettings();
+  const [editing, setEditing] = useState<{ index: number; text: string } | null>(null);
+  const [regenerateModel, setRegenerateModel] = useState(selectedModel);
+  const [regenerateTemperature, setRegenerateTemperature] = useState(temperature);
+
+  // Each open starts from the settings again, so a one-off experiment with
+  // another model does not quietly stick.
+  useEffect(() => {
+    if (!isOpen) return;
+    setEditing(null);
+    setRegenerateModel(selectedModel);
+    setRegenerateTemperature(temperature);
+  }, [isOpen, selectedModel, temperature]);
+
+  if (!isOpen) return null;
+
+  const lastIndex = messages.length - 1;
+  const canRegenerate = messages.some((message) => message.role === MessageRole.USER);
+
+  const submitEdit = () => {
+    if (!editing || !editing.text.trim()) return;
+    onEdit(editing.index, editing.text);
+    setEditing(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-primary/50 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        aria-label="Conversation"
+        className="absolute top-0 bottom-0 right-0 w-full max-w-xl flex flex-col bg-secondary/90 border-l border-accent/30 shadow-2xl shadow-accent/10 text-gray-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4 p-4 pb-2 border-b border-accent/15">
+          <h2 className="text-2xl font-bold text-cyan drop-shadow-[0_0_8px_theme(colors.cyan)]">Conversation</h2>
+          <button
+            onClick={onClose}
+            aria-label="Close conversation"
+            className="shrink-0 -mr-1 -mt-1 p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-600/40 transition-colors"
+          >
+            ✕
+          </button>
+        </div>
+
+        <ol className="flex-1 overflow-y-auto p-4 space-y-4">
+          {messages.length === 0 && <li className="text-sm text-gray-500 text-center">Nothing said yet.</li>}
+          {messages.map((message, index) => {
+            const isUser = message.role === MessageRole.USER;
+            const isEditing = editing?.index === index;
+            return (
+              <li key={index} className={`flex flex-col ${isUser ? 'items-end' : 'items-start'}`}>
+                <div
+                  className={`max-w-[90%] px-3 py-2 rounded-lg text-sm break-words ${
+                    isUser ? 'bg-accent/20 text-gray-100' : 'bg-black/40 text-accent/90'
+                  } ${isEditing ? 'w-full' : ''}`}
+                >
+                  {isEditing ? (
+                    <textarea
+                      value={editing.text}
+                      onChange={(e) => setEditing({ index, text: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          submitEdit();
+                        }
+                      }}
+                      rows={3}
+                      autoFocus
+                      className={`${inputStyles} w-full text-base resize-y`}
+                    />
+                  ) : isUser ? (
+                    <>
+                      {message.images?.map((url, i) => (
+                        <img key={i} src={url} alt="Attached picture" className="max-h-32 rounded-md mb-1" />
+                      ))}
+                      <p className="whitespace-pre-wrap">{message.content}</p>
+                    </>
+                  ) : (
+                    <>
+                      <Markdown text={message.content} />
+                      {message.interrupted && <span className="text-accent/50 italic">(interrupted)</span>}
+                    </>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 mt-1 text-xs">
+                  <VersionSwitcher
+                    message={message}
+                    disabled={busy}
+                    onSwitch={(version) => onSwitchVersion(index, version)}
+                  />
+                  {message.model && <span className="text-gray-500">{message.model}</span>}
+                  {isUser && !isEditing && (
+                    <button
+                      type="button"
+                      onClick={() => setEditing({ index, text: message.content })}
+                      className={actionStyles}
+                    >
+                      Edit
+                    </button>
+                  )}
+                  {isEditing && (
+                    <>
+                      <button type="button" onClick={submitEdit} className={actionStyles}>
+                        Send
+                      </button>
+                      <button type="button" onClick={() => setEditing(null)} className={actionStyles}>
+                        Cancel
+                      </button>
+                    </>
+                  )}
+                </div>
+                {index === lastIndex && busy && !isUser && !message.content && (
+                  <span className="text-xs text-accent/60 italic">Thinking…</span>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+
+        {canRegenerate && (
+          <div className="p-4 border-t border-accent/15 flex flex-wrap items-center gap-2 text-sm">
+            <select
+              value={regenerateModel}
+              onChange={(e) => setRegenerateModel(e.target.value)}
+              aria-label="Model for the new answer"
+              className={`${inputStyles} flex-1`}
+            >
+              {!availableModels.some((m) => m.name === regenerateModel) && (
+                <option value={regenerateModel}>{regenerateModel}</option>
+              )}
+              {availableModels.map((m) => (
+                <option key={m.name} value={m.name}>
+                  {m.name}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-gray-400">
+              Temp
+              <input
+                type="number"
+                min={0}
+                max={2}
+                step={0.1}
+                value={regenerateTemperature}
+                onChange={(e) => setRegenerateTemperature(Number(e.target.value))}
+                className={`${inputStyles} w-20`}
+              />
+            </label>
+            <button
+              type="button"
+              onClick={() => onRegenerate({ model: regenerateModel, temperature: regenerateTemperature })}
+              className="shrink-0 px-4 py-1.5 bg-accent/80 hover:bg-cyan text-white rounded-md transition-colors"
+            >
+              Regenerate answer
+            </button>
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default ConversationThread;
@@ -0,0 +1,248 @@
+import React, { FC, useEffect, useMemo, useRef, useState } from 'react';
+import { Conversation } from '../types';
+import { deleteConversation, importConversations, listConversations } from '../services/conversationStore';
+import {
+  conversationToMarkdown,
+  conversationsToJson,
+  conversationsToMarkdown,
+  downloadFile,
+  exportFileName,
+  parseConversationsJson,
+} from '../services/conversationExport';
+import { everyMessage } from '../services/messageBranches';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** The conversation on screen, highlighted in the list. */
+  activeId: string;
+  onOpen: (id: string) => void;
+  /** Called after a conversation is deleted, so the view can drop it if it was showing. */
+  onDeleted: (id: string) => void;
+}
+
+// Characters of context kept either side of a search hit.
+const SNIPPET_CONTEXT = 40;
+
+interface ListItem {
+  conversation: Conversation;
+  /** The message text around the search hit, when the hit was not in the title. */
+  snippet?: string;
+}
+
+function snippetAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+  const body = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${body}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Every conversation matching `query` in its title, persona or any message,
+ * newest first. Versions not on screen (regenerated replies, edited questions)
+ * are searched too.
+ */
+function search(conversations: Conversation[], query: string): ListItem[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return conversations.map((conversation) => ({ conversation }));
+  const items: ListItem[] = [];
+  for (const conversation of conversations) {
+    if (conversation.title.toLowerCase().includes(needle) || conversation.persona?.toLowerCase().includes(needle)) {
+      items.push({ conversation });
+      continue;
+    }
+    for (const message of everyMessage(conversation.messages)) {
+      const index = message.content.toLowerCase().indexOf(needle);
+      if (index >= 0) {
+        items.push({ conversation, snippet: snippetAround(message.content, index, needle.length) });
+        break;
+      }
+    }
+  }
+  return items;
+}
+
+const count = (n: number, noun: string) => `${n} ${n === 1 ? noun : `${noun}s`}`;
+
+function importSummary(added: number, skipped: number, copied: number): string {
+  const parts = [`Imported ${count(added + copied, 'conversation')}.`];
+  if (copied > 0) {
+    parts.push(`${copied === 1 ? 'One differed' : `${copied} differed`} from a saved conversation with the same id and ${copied === 1 ? 'was' : 'were'} added as ${copied === 1 ? 'a copy' : 'copies'}.`);
+  }
+  if (skipped > 0) parts.push(`Skipped ${count(skipped, 'conversation')} already saved here.`);
+  return parts.join(' ');
+}
+
+const actionStyles =
+  'px-2 py-0.5 rounded-full border border-accent/30 text-accent/80 hover:text-cyan hover:border-cyan transition-colors';
+
+/**
+ * A slide-out list of past conversations, for looking back over what the
+ * kiosk was asked during the day. Everything here reads and writes the
+ * conversation store directly; the chat only hears about opens and deletes.
+ */
+const HistoryPanel: FC<HistoryPanelProps> = ({ isOpen, onClose, activeId, onOpen, onDeleted }) => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [query, setQuery] = useState('');
+  const [status, setStatus] = useState<{ error: boolean; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => listConversations().then(setConversations).catch(() => setConversations([]));
+
+  // Reloaded on every open: the conversation in progress is saved as it goes,
+  // so a list kept from last time would be stale.
+  useEffect(() => {
+    if (!isOpen) return;
+    setStatus(null);
+    refresh();
+  }, [isOpen]);
+
+  const items = useMemo(() => search(conversations, query), [conversations, query]);
+
+  if (!isOpen) return null;
+
+  const handleDelete = async (conversation: Conversation) => {
+    if (!window.confirm(`Delete "${conversation.title || 'Untitled conversation'}"?`)) return;
+    try {
+      await deleteConversation(conversation.id);
+    } catch (error) {
+      setStatus({ error: true, text: error instanceof Error ? error.message : 'The conversation could not be deleted.' });
+      return;
+    }
+    setConversations((prev) => prev.filter((c) => c.id !== conversation.id));
+    onDeleted(conversation.id);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Cleared so choosing the same file again still fires a change.
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { added, skipped, copied } = await importConversations(parseConversationsJson(await file.text()));
+      setStatus({ error: false, text: importSummary(added, skipped, copied) });
+      refresh();
+    } catch (error) {
+      setStatus({ error: true, text: error instanceof Error ? error.message : 'The import failed.' });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-primary/50 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        aria-label="Conversation history"
+        className="absolute top-0 bottom-0 left-0 w-full max-w-md flex flex-col bg-secondary/90 border-r border-accent/30 shadow-2xl shadow-accent/10 text-gray-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4 p-4 pb-2">
+          <h2 className="text-2xl font-bold text-cyan drop-shadow-[0_0_8px_theme(colors.cyan)]">History</h2>
+          <button
+            onClick={onClose}
+            aria-label="Close history"
+            className="shrink-0 -mr-1 -mt-1 p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-600/40 transition-colors"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="px-4 pb-3 space-y-2 border-b border-accent/15">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search conversations..."
+            className="w-full min-w-0 px-4 py-2 text-base bg-primary/70 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan focus:border-cyan transition-colors"
+          />
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <button
+              type="button"
+              disabled={conversations.length === 0}
+              onClick={() =>
+                downloadFile(exportFileName(null, 'md'), conversationsToMarkdown(conversations), 'text/markdown')
+              }
+              className={`${actionStyles} disabled:opacity-40`}
+            >
+              Export all (Markdown)
+            </button>
+            <button
+              type="button"
+              disabled={conversations.length === 0}
+              onClick={() =>
+                downloadFile(exportFileName(null, 'json'), conversationsToJson(conversations), 'application/json')
+              }
+              className={`${actionStyles} disabled:opacity-40`}
+            >
+              Export all (JSON)
+            </button>
+            <button type="button" onClick={() => fileInputRef.current?.click()} className={actionStyles}>
+              Import JSON
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} hidden />
+          </div>
+          {status && <p className={`text-xs ${status.error ? 'text-red-400' : 'text-accent/80'}`}>{status.text}</p>}
+        </div>
+
+        <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+          {items.length === 0 && (
+            <li className="p-4 text-sm text-gray-500 text-center">
+              {conversations.length === 0 ? 'No saved conversations yet.' : 'Nothing matches that search.'}
+            </li>
+          )}
+          {items.map(({ conversation, snippet }) => (
+            <li
+              key={conversation.id}
+              className={`p-3 rounded-md border ${
+                conversation.id === activeId ? 'border-cyan/60 bg-cyan/10' : 'border-transparent hover:bg-primary/40'
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => onOpen(conversation.id)}
+                className="block w-full text-left"
+              >
+                <span className="block text-sm text-gray-200 truncate">
+                  {conversation.title || 'Untitled conversation'}
+                </span>
+                <span className="block text-xs text-gray-500">
+                  {new Date(conversation.updatedAt).toLocaleString()} · {conversation.model || 'unknown model'} ·{' '}
+                  {conversation.persona && `${conversation.persona} · `}
+                  {conversation.messages.length} {conversation.messages.length === 1 ? 'message' : 'messages'}
+                </span>
+                {snippet && <span className="block mt-1 text-xs text-accent/70 break-words">{snippet}</span>}
+              </button>
+              <div className="flex flex-wrap gap-2 mt-2 text-xs">
+                <button
+                  type="button"
+                  onClick={() =>
+                    downloadFile(exportFileName(conversation, 'md'), conversationToMarkdown(conversation), 'text/markdown')
+                  }
+                  className={actionStyles}
+                >
+                  Markdown
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    downloadFile(exportFileName(conversation, 'json'), conversationsToJson([conversation]), 'application/json')
+                  }
+                  className={actionStyles}
+                >
+                  JSON
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(conversation)}
+                  className="px-2 py-0.5 rounded-full border border-red-400/40 text-red-300 hover:bg-red-500/20 hover:text-white transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </aside>
+    </div>
+  );
+};
+
+export default HistoryPanel;
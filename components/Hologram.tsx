@@ -15,17 +15,66 @@ import * as THREE from 'three';
 import { capBoundaryHoles } from './capHoles';
 import HologramBackdrop from './HologramBackdrop';
 import type { BackdropTheme } from '../types';
+import type { AssistantState } from '../hooks/useReplyPhase';
 
 interface HologramProps {
-  isListening: boolean;
-  isSpeaking: boolean;
-  isIdle: boolean;
+  state: AssistantState;
 }
 
+// The glow around the figure says what it is doing. Idle and standby have
+// none.
+const STATE_LIGHTS: Partial<Record<AssistantState, string>> = {
+  listening: '#00ff00',
+  thinking: '#ffaa00',
+  streaming: '#00ccff',
+  speaking: '#0088ff',
+  error: '#ff2244',
+};
+
 interface HologramViewProps extends HologramProps {
   /** Passed down as a prop, not read from context: React context does not
       cross the react-three-fiber Canvas boundary. */
   backdropTheme: BackdropTheme;
+  /** When the follow-up window closes (Date.now() time), or null when none is open. */
+  followUpEndsAt?: number | null;
+}
+
+const COUNTDOWN_RADIUS = 18;
+const COUNTDOWN_CIRCUMFERENCE = 2 * Math.PI * COUNTDOWN_RADIUS;
+
+/** A draining ring over the hologram while it waits for a follow-up question. */
+function FollowUpCountdown({ endsAt }: { endsAt: number }) {
+  const [now, setNow] = useState(Date.now);
+  // The window's full length, taken from the first render.
+  const [total] = useState(() => Math.max(1, endsAt - Date.now()));
+
+  React.useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = Math.max(0, endsAt - now);
+  return (
+    <div className="absolute top-20 left-1/2 -translate-x-1/2 flex items-center gap-2 px-3 py-1.5 rounded-full bg-black/50 backdrop-blur-sm pointer-events-none">
+      <svg width="44" height="44" viewBox="0 0 44 44" className="-rotate-90" aria-hidden="true">
+        <circle cx="22" cy="22" r={COUNTDOWN_RADIUS} fill="none" strokeWidth="3" className="stroke-accent/25" />
+        <circle
+          cx="22"
+          cy="22"
+          r={COUNTDOWN_RADIUS}
+          fill="none"
+          strokeWidth="3"
+          strokeLinecap="round"
+          strokeDasharray={COUNTDOWN_CIRCUMFERENCE}
+          strokeDashoffset={COUNTDOWN_CIRCUMFERENCE * (1 - remaining / total)}
+          className="stroke-cyan transition-[stroke-dashoffset] duration-100"
+        />
+      </svg>
+      <span className="text-sm text-accent/90">
+        Listening for a follow-up… {Math.ceil(remaining / 1000)}
+      </span>
+    </div>
+  );
 }
 
 function LoaderOverlay() {
@@ -44,9 +93,10 @@ function LoaderOverlay() {
 
 type BoneEntry = { bone: THREE.Object3D; rest: THREE.Euler };
 
-function HologramModel({ isListening, isSpeaking, isIdle }: HologramProps) {
+function HologramModel({ state }: HologramProps) {
   const gltf = useGLTF('/models/hologram.glb');
   const groupRef = useRef<THREE.Group>(null);
+  const lightRef = useRef<THREE.PointLight>(null);
   const bonesRef = useRef<Record<string, BoneEntry>>({});
   const [hovered, setHovered] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
@@ -141,25 +191,42 @@ function HologramModel({ isListening, isSpeaking, isIdle }: HologramProps) {
     }
   }, [gltf.scene]);
 
+  const isListening = state === 'listening';
+  const isSpeaking = state === 'speaking';
+  const isThinking = state === 'thinking';
+  const isError = state === 'error';
+  const lightColor = STATE_LIGHTS[state];
+
   // Animation effect
-  useFrame((state) => {
+  useFrame((frame) => {
     if (!groupRef.current || isDragging) return;
 
-    // Gentle floating animation when not being manipulated
-    groupRef.current.position.y = Math.sin(state.clock.elapsedTime * 1.5) * 0.25;
+    const t = frame.clock.elapsedTime;
+
+    // Gentle floating animation when not being manipulated. It slows right
+    // down while thinking, as if holding still to concentrate.
+    groupRef.current.position.y = Math.sin(t * (isThinking ? 0.8 : 1.5)) * 0.25;
 
     // Scale effect based on state
     const baseScale = isDragging ? 1.8 : 1.5;
     const targetScale = isListening ? baseScale * 1.1 : 
                        isSpeaking ? baseScale * 1.05 : 
+                       isError ? baseScale * 0.97 :
                        hovered ? baseScale * 1.02 : 
                        baseScale;
     groupRef.current.scale.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), 0.1);
 
-    const t = state.clock.elapsedTime;
+    // Thinking pulses slowly; an error flickers like a failing projector.
+    if (lightRef.current) {
+      lightRef.current.intensity = isThinking
+        ? 1.5 + Math.sin(t * 3) * 1
+        : isError
+          ? (Math.sin(t * 23) > 0.3 ? 2.5 : 0.6)
+          : 2;
+    }
 
     // Procedural skeletal idle animation, livelier while listening/speaking
-    const energy = isSpeaking ? 2 : isListening ? 1.5 : 1;
+    const energy = isSpeaking ? 2 : isListening ? 1.5 : isThinking ? 0.6 : 1;
     const bones = bonesRef.current;
     // oscillate around the rest pose: rest + sin(t * speed + phase) * amount
     const sway = (key: string, axis: 'x' | 'y' | 'z', amount: number, speed: number, phase = 0) => {
@@ -176,10 +243,20 @@ function HologramModel({ isListening, isSpeaking, isIdle }: HologramProps) {
     sway('spineMiddle', 'x', 0.03 * energy, 1.4);
     sway('spineUpper', 'x', 0.045 * energy, 1.4, 0.4);
     sway('hips', 'y', 0.04, 0.6);
-    // head looks around
-    sway('neckLower', 'y', 0.12 * energy, 0.5);
-    sway('neckUpper', 'y', 0.22 * energy, 0.5, 0.5);
-    sway('neckUpper', 'x', 0.07, 0.8, 1.2);
+    // head looks around; thinking looks slowly down and off to one side with
+    // the head cocked, an error shakes it
+    if (isThinking) {
+      sway('neckLower', 'y', 0.05, 0.3);
+      sway('neckUpper', 'y', 0.1, 0.3, 0.5);
+      sway('neckUpper', 'x', 0.03, 0.7);
+      if (bones.neckUpper) bones.neckUpper.bone.rotation.x -= 0.12;
+    } else {
+      sway('neckLower', 'y', 0.12 * energy, 0.5);
+      sway('neckUpper', 'y', isError ? 0.18 : 0.22 * energy, isError ? 7 : 0.5, 0.5);
+      sway('neckUpper', 'x', 0.07, 0.8, 1.2);
+    }
+    const neck = bones.neckUpper;
+    if (neck) neck.bone.rotation.z = neck.rest.z + (isThinking ? 0.15 : 0);
     // arms: shoulder sway only. A chunk of the 25_Body (torso) mesh near
     // the shoulder is skin-weighted 100% to the elbow joint instead of the
     // shoulder joint (a weight-painting defect in the source asset), so any
@@ -207,9 +284,10 @@ function HologramModel({ isListening, isSpeaking, isIdle }: HologramProps) {
           object={gltf.scene} 
           scale={1.5}
         />
-        {(isListening || isSpeaking) && (
+        {lightColor && (
           <pointLight
-            color={isListening ? '#00ff00' : '#0088ff'}
+            ref={lightRef}
+            color={lightColor}
             intensity={2}
             distance={3}
             position={[0, 1, 0]}
@@ -274,7 +352,7 @@ function Rig() {
   );
 }
 
-const Hologram: React.FC<HologramViewProps> = ({ isListening, isSpeaking, isIdle, backdropTheme }) => {
+const Hologram: React.FC<HologramViewProps> = ({ state, backdropTheme, followUpEndsAt }) => {
   return (
     <div className="fixed inset-0 w-full h-full z-10">
       <Canvas
@@ -299,9 +377,11 @@ const Hologram: React.FC<HologramViewProps> = ({ isListening, isSpeaking, isIdle
           <AccumulativeShadows temporal frames={60} alphaTest={0.85} opacity={0.8}>
             <RandomizedLight amount={8} radius={10} ambient={0.5} position={[5, 5, -10]} />
           </AccumulativeShadows>
-          <HologramModel isListening={isListening} isSpeaking={isSpeaking} isIdle={isIdle} />
+          <HologramModel state={state} />
         </Suspense>
       </Canvas>
+      {/* Keyed so each window starts a fresh ring. */}
+      {followUpEndsAt && <FollowUpCountdown key={followUpEndsAt} endsAt={followUpEndsAt} />}
     </div>
   );
 };
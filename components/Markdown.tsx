@@ -0,0 +1,409 @@
+import React, { FC, ReactNode, useEffect, useState } from 'react';
+
+/**
+ * A small Markdown renderer for assistant replies.
+ *
+ * It builds React elements and never HTML strings, so whatever the model
+ * writes — including raw <script> tags — is shown as text, not run. Links are
+ * only made for http(s) and mailto addresses.
+ *
+ * Replies are rendered while they stream, so the input is often cut off
+ * mid-construct. An unclosed code fence runs to the end of the text, an
+ * unclosed `**` emphasizes what has arrived so far, and a link whose address is
+ * still arriving shows just its text. Each re-render with more text simply
+ * settles into the finished form.
+ */
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+}
+
+type Block =
+  | { type: 'paragraph'; text: string }
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'code'; lang: string; code: string }
+  | { type: 'list'; ordered: boolean; start: number; items: string[] }
+  | { type: 'quote'; text: string }
+  | { type: 'table'; header: string[]; align: Align[]; rows: string[][] }
+  | { type: 'rule' };
+
+type Align = 'left' | 'center' | 'right' | undefined;
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const QUOTE = /^ {0,3}>\s?(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function splitRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function startsBlock(line: string, next: string | undefined): boolean {
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    LIST_ITEM.test(line) ||
+    QUOTE.test(line) ||
+    (line.includes('|') && next !== undefined && TABLE_DIVIDER.test(next))
+  );
+}
+
+function parseBlocks(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const code: string[] = [];
+      i++;
+      // No closing fence yet means the code is still streaming in.
+      while (i < lines.length && !lines[i].trim().startsWith(marker)) code.push(lines[i++]);
+      i++;
+      blocks.push({ type: 'code', lang: fence[2], code: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map((cell): Align => {
+        if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+        if (cell.endsWith(':')) return 'right';
+        if (cell.startsWith(':')) return 'left';
+        return undefined;
+      });
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) rows.push(splitRow(lines[i++]));
+      blocks.push({ type: 'table', header, align, rows });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].match(QUOTE)![1]);
+      blocks.push({ type: 'quote', text: quoted.join('\n') });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const indent = item[1].length;
+      const ordered = /\d/.test(item[2]);
+      const items: string[] = [];
+      let current: string[] = [item[3]];
+      i++;
+      while (i < lines.length) {
+        const next = lines[i];
+        const nextItem = next.match(LIST_ITEM);
+        if (nextItem && nextItem[1].length === indent && /\d/.test(nextItem[2]) === ordered) {
+          items.push(current.join('\n'));
+          current = [nextItem[3]];
+        } else if (!next.trim()) {
+          // A blank line ends the list unless the list carries on after it.
+          const after = lines[i + 1];
+          if (after === undefined || !(after.startsWith(' '.repeat(indent + 2)) || LIST_ITEM.test(after))) break;
+          current.push('');
+        } else if (next.startsWith(' '.repeat(indent + 1)) || !startsBlock(next, lines[i + 1])) {
+          // Indented lines (nested lists, continued text) belong to the item.
+          current.push(next.slice(Math.min(indent + 2, next.search(/\S/))));
+        } else {
+          break;
+        }
+        i++;
+      }
+      items.push(current.join('\n'));
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(item[2], 10) : 1, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i], lines[i + 1])) paragraph.push(lines[i++]);
+    blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+  }
+
+  return blocks;
+}
+
+function safeHref(url: string): string | null {
+  try {
+    const parsed = new URL(url, window.location.href);
+    return ['http:', 'https:', 'mailto:'].includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Index of the ")" closing a link address that starts at `from`, allowing balanced parentheses inside it. */
+function closingParen(text: string, from: number): number {
+  let depth = 0;
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')' && depth-- === 0) return i;
+  }
+  return -1;
+}
+
+const linkStyles = 'text-cyan underline underline-offset-2 hover:text-white break-words';
+
+const EMPHASIS: { marker: string; wrap: (children: ReactNode, key: string) => ReactNode }[] = [
+  { marker: '**', wrap: (c, key) => <strong key={key} className="font-semibold text-white">{c}</strong> },
+  { marker: '__', wrap: (c, key) => <strong key={key} className="font-semibold text-white">{c}</strong> },
+  { marker: '~~', wrap: (c, key) => <del key={key}>{c}</del> },
+  { marker: '*', wrap: (c, key) => <em key={key}>{c}</em> },
+  { marker: '_', wrap: (c, key) => <em key={key}>{c}</em> },
+];
+
+const AUTOLINK = /^https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]]/;
+
+/** Inline Markdown: code spans, emphasis, links, bare URLs and line breaks. */
+function renderInline(text: string, keyPrefix = 'i'): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let plain = '';
+  let i = 0;
+  const key = () => `${keyPrefix}-${nodes.length}`;
+  const flush = () => {
+    if (plain) nodes.push(plain);
+    plain = '';
+  };
+
+  outer: while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+    const previous = text[i - 1] ?? ' ';
+
+    if (char === '\\' && /[\\`*_{}[\]()#+\-.!|~>]/.test(text[i + 1] ?? '')) {
+      plain += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      flush();
+      nodes.push(<br key={key()} />);
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const ticks = rest.match(/^`+/)![0];
+      const close = text.indexOf(ticks, i + ticks.length);
+      const end = close === -1 ? text.length : close;
+      flush();
+      nodes.push(
+        <code key={key()} className="px-1 py-0.5 rounded bg-black/50 text-cyan/90 font-mono text-[0.9em]">
+          {text.slice(i + ticks.length, end)}
+        </code>
+      );
+      i = close === -1 ? text.length : close + ticks.length;
+      continue;
+    }
+
+    if (char === '[') {
+      const labelEnd = text.indexOf(']', i + 1);
+      if (labelEnd !== -1 && text[labelEnd + 1] === '(') {
+        const label = text.slice(i + 1, labelEnd);
+        const urlEnd = closingParen(text, labelEnd + 2);
+        flush();
+        if (urlEnd === -1) {
+          // The address is still streaming in; show the text for now.
+          nodes.push(<React.Fragment key={key()}>{renderInline(label, key())}</React.Fragment>);
+          break;
+        }
+        const href = safeHref(text.slice(labelEnd + 2, urlEnd).trim().split(/\s+/)[0]);
+        nodes.push(
+          href ? (
+            <a key={key()} href={href} target="_blank" rel="noopener noreferrer" className={linkStyles}>
+              {renderInline(label, key())}
+            </a>
+          ) : (
+            <React.Fragment key={key()}>{renderInline(label, key())}</React.Fragment>
+          )
+        );
+        i = urlEnd + 1;
+        continue;
+      }
+    }
+
+    if (char === 'h' && !/[\p{L}\p{N}]/u.test(previous)) {
+      const url = rest.match(AUTOLINK);
+      if (url) {
+        flush();
+        nodes.push(
+          <a key={key()} href={url[0]} target="_blank" rel="noopener noreferrer" className={linkStyles}>
+            {url[0]}
+          </a>
+        );
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    for (const { marker, wrap } of EMPHASIS) {
+      if (!rest.startsWith(marker)) continue;
+      const after = text[i + marker.length];
+      // An opener has to hug the text it emphasizes ("5 * 3" is not), and
+      // underscores inside a word (snake_case) are just underscores.
+      if (!after || /\s/.test(after) || (marker.length === 1 && after === marker)) break;
+      if (marker[0] === '_' && /[\p{L}\p{N}]/u.test(previous)) break;
+
+      let close = i + marker.length;
+      for (;;) {
+        close = text.indexOf(marker, close + 1);
+        if (close === -1) break;
+        const doubled = marker.length === 1 && text[close + 1] === marker;
+        if (!/\s/.test(text[close - 1]) && !doubled) break;
+        if (doubled) close++;
+      }
+      // "***both***": the inner "*…*" keeps its own closer.
+      if (close !== -1 && marker.length === 2 && text[close + 2] === marker[0]) close++;
+      flush();
+      // Unclosed: the closing marker has not arrived yet.
+      const inner = text.slice(i + marker.length, close === -1 ? text.length : close);
+      nodes.push(wrap(renderInline(inner, key()), key()));
+      i = close === -1 ? text.length : close + marker.length;
+      continue outer;
+    }
+
+    plain += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+const CodeBlock: FC<{ lang: string; code: string }> = ({ lang, code }) => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 1500);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const copy = () => {
+    navigator.clipboard?.writeText(code).then(
+      () => setCopied(true),
+      (error) => console.error('Failed to copy code:', error)
+    );
+  };
+
+  return (
+    <div className="my-2 rounded-md border border-accent/20 bg-black/60 overflow-hidden text-left">
+      <div className="flex items-center justify-between px-3 py-1 text-xs text-gray-400 border-b border-accent/15">
+        <span>{lang || 'code'}</span>
+        <button type="button" onClick={copy} className="px-2 py-0.5 rounded hover:text-white hover:bg-accent/20 transition-colors">
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-sm leading-snug">
+        <code className="font-mono text-gray-200">{code}</code>
+      </pre>
+    </div>
+  );
+};
+
+const HEADING_STYLES = ['text-lg', 'text-base', 'text-base', 'text-sm', 'text-sm', 'text-sm'];
+
+function renderBlocks(blocks: Block[], keyPrefix = 'b'): ReactNode[] {
+  return blocks.map((block, index) => {
+    const key = `${keyPrefix}-${index}`;
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={key} className="my-1.5">{renderInline(block.text, key)}</p>;
+      case 'heading': {
+        const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3' | 'h4' | 'h5' | 'h6';
+        return (
+          <Tag key={key} className={`${HEADING_STYLES[block.level - 1]} font-semibold text-white mt-3 mb-1`}>
+            {renderInline(block.text, key)}
+          </Tag>
+        );
+      }
+      case 'code':
+        return <CodeBlock key={key} lang={block.lang} code={block.code} />;
+      case 'list': {
+        const items = block.items.map((item, n) => (
+          <li key={n} className="my-0.5">{renderBlocks(parseBlocks(item), `${key}-${n}`)}</li>
+        ));
+        return block.ordered ? (
+          <ol key={key} start={block.start} className="list-decimal pl-6 my-1.5 text-left [&_p]:my-0">{items}</ol>
+        ) : (
+          <ul key={key} className="list-disc pl-6 my-1.5 text-left [&_p]:my-0">{items}</ul>
+        );
+      }
+      case 'quote':
+        return (
+          <blockquote key={key} className="border-l-2 border-accent/50 pl-3 my-2 text-gray-300 italic text-left">
+            {renderBlocks(parseBlocks(block.text), key)}
+          </blockquote>
+        );
+      case 'table':
+        return (
+          <div key={key} className="my-2 overflow-x-auto">
+            <table className="min-w-full text-sm border-collapse text-left">
+              <thead>
+                <tr>
+                  {block.header.map((cell, n) => (
+                    <th key={n} style={{ textAlign: block.align[n] }} className="px-2 py-1 border-b border-accent/40 font-semibold text-white">
+                      {renderInline(cell, `${key}-h${n}`)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r} className="odd:bg-black/20">
+                    {block.header.map((_, n) => (
+                      <td key={n} style={{ textAlign: block.align[n] }} className="px-2 py-1 border-b border-accent/15">
+                        {renderInline(row[n] ?? '', `${key}-${r}-${n}`)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'rule':
+        return <hr key={key} className="my-3 border-accent/30" />;
+    }
+  });
+}
+
+const Markdown: FC<MarkdownProps> = ({ text, className }) => (
+  <div className={className}>{renderBlocks(parseBlocks(text))}</div>
+);
+
+export default Markdown;
@@ -0,0 +1,47 @@
+import React, { useEffect, useRef } from 'react';
+
+interface MicLevelMeterProps {
+  /** Read every animation frame; see useSpeech's micLevel. */
+  getLevel: () => number;
+  /** The speech threshold, drawn as a tick so the user can see what counts as talking. */
+  threshold?: number;
+}
+
+// RMS of ordinary speech rarely goes above this, so it fills the bar.
+const FULL_SCALE = 0.2;
+
+/**
+ * A small vertical bar showing how loud the microphone is. It updates the DOM
+ * directly each frame instead of through state, which would re-render the
+ * whole chat view sixty times a second.
+ */
+const MicLevelMeter: React.FC<MicLevelMeterProps> = ({ getLevel, threshold }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let frame = requestAnimationFrame(function draw() {
+      const fill = Math.min(1, getLevel() / FULL_SCALE);
+      if (barRef.current) barRef.current.style.height = `${fill * 100}%`;
+      frame = requestAnimationFrame(draw);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [getLevel]);
+
+  return (
+    <div
+      role="presentation"
+      title="Microphone level"
+      className="relative shrink-0 w-1.5 h-10 rounded-full bg-secondary/80 border border-accent/30 overflow-hidden"
+    >
+      <div ref={barRef} className="absolute bottom-0 left-0 right-0 bg-cyan transition-[height] duration-75" style={{ height: 0 }} />
+      {threshold !== undefined && (
+        <div
+          className="absolute left-0 right-0 h-px bg-white/70"
+          style={{ bottom: `${Math.min(1, threshold / FULL_SCALE) * 100}%` }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MicLevelMeter;
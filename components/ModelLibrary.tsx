@@ -0,0 +1,209 @@
+import React, { FC, useCallback, useEffect, useRef, useState } from 'react';
+import { useSettings } from '../context/SettingsContext';
+import { LoadedModel, PullProgress } from '../services/llmProvider';
+import CapabilityBadges from './CapabilityBadges';
+import { SpinnerIcon } from './icons/SpinnerIcon';
+
+// How often the "in memory" marks are refreshed while the panel is open;
+// Ollama unloads idle models on its own schedule.
+const LOADED_POLL_MS = 10000;
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1e9) return `${(bytes / 1e9).toFixed(1)} GB`;
+  if (bytes >= 1e6) return `${Math.round(bytes / 1e6)} MB`;
+  return `${Math.round(bytes / 1e3)} KB`;
+}
+
+const smallButtonStyles =
+  'shrink-0 px-2 py-0.5 text-xs rounded-full border border-accent/30 text-accent/80 hover:text-cyan hover:border-cyan transition-colors disabled:opacity-40';
+
+const inputStyles =
+  'w-full min-w-0 px-4 py-2 text-base bg-primary/70 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan focus:border-cyan transition-colors';
+
+/**
+ * The server's models with their size, parameters, quantization and whether
+ * they are loaded, plus pulling new ones and deleting old ones, so nobody has
+ * to SSH into the kiosk to run `ollama pull`. Renders nothing for providers
+ * that cannot manage models.
+ */
+const ModelLibrary: FC = () => {
+  const { provider, availableModels, modelDetails, refreshModels } = useSettings();
+  const manager = provider.models;
+  const [loaded, setLoaded] = useState<LoadedModel[]>([]);
+  const [expanded, setExpanded] = useState<string[]>([]);
+  const [pullName, setPullName] = useState('');
+  const [pulling, setPulling] = useState<{ name: string; progress: PullProgress } | null>(null);
+  const [error, setError] = useState('');
+  const pullRef = useRef<AbortController | null>(null);
+
+  const refreshLoaded = useCallback(() => {
+    manager?.listLoaded().then(setLoaded).catch(() => setLoaded([]));
+  }, [manager]);
+
+  useEffect(() => {
+    if (!manager) return;
+    refreshLoaded();
+    const timer = setInterval(refreshLoaded, LOADED_POLL_MS);
+    return () => clearInterval(timer);
+  }, [manager, refreshLoaded]);
+
+  // Closing the settings mid-download stops it; Ollama keeps the finished
+  // layers, so pulling again carries on where it left off.
+  useEffect(() => () => pullRef.current?.abort(), []);
+
+  if (!manager) return null;
+
+  const handlePull = async () => {
+    const name = pullName.trim();
+    if (!name || pulling) return;
+    const controller = new AbortController();
+    pullRef.current = controller;
+    setError('');
+    setPulling({ name, progress: { status: 'starting' } });
+    try {
+      await manager.pull(name, (progress) => setPulling({ name, progress }), controller.signal);
+      setPullName('');
+      await refreshModels();
+    } catch (e) {
+      if (!controller.signal.aborted) setError(`Could not pull ${name}: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      pullRef.current = null;
+      setPulling(null);
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    if (!window.confirm(`Delete ${name} from the server? It will have to be pulled again to use it.`)) return;
+    setError('');
+    try {
+      await manager.remove(name);
+      await refreshModels();
+      refreshLoaded();
+    } catch (e) {
+      setError(`Could not delete ${name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const toggleDetails = (name: string) =>
+    setExpanded((prev) => (prev.includes(name) ? prev.filter((n) => n !== name) : [...prev, name]));
+
+  const progress = pulling?.progress;
+  const percent = progress?.total ? Math.min(100, ((progress.completed ?? 0) / progress.total) * 100) : null;
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-2">
+        {availableModels.map((model) => {
+          const inMemory = loaded.find((l) => l.name === model.name);
+          const info = modelDetails[model.name];
+          const isExpanded = expanded.includes(model.name);
+          const summary = [
+            model.size ? formatBytes(model.size) : '',
+            model.details?.parameter_size,
+            model.details?.quantization_level,
+          ]
+            .filter(Boolean)
+            .join(' · ');
+          return (
+            <li key={model.name} className="p-2 rounded-md border border-gray-600 text-sm">
+              <div className="flex items-center gap-2">
+                <span className="min-w-0 flex-1 truncate">{model.name}</span>
+                {info && <CapabilityBadges capabilities={info.capabilities} />}
+                {inMemory && (
+                  <span
+                    className="shrink-0 px-2 py-0.5 text-xs rounded-full bg-cyan/15 text-cyan"
+                    title={`${formatBytes(inMemory.size)} in memory, ${Math.round((inMemory.sizeVram / (inMemory.size || 1)) * 100)}% on the GPU`}
+                  >
+                    In memory
+                  </span>
+                )}
+                <button type="button" onClick={() => toggleDetails(model.name)} className={smallButtonStyles}>
+                  {isExpanded ? 'Less' : 'More'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(model.name)}
+                  className="shrink-0 px-2 py-0.5 text-xs rounded-full border border-red-400/40 text-red-300 hover:bg-red-500/20 hover:text-white transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+              {summary && <p className="text-xs text-gray-500 mt-0.5">{summary}</p>}
+              {isExpanded && !info && <p className="text-xs text-gray-500 mt-1">The server has not described this model.</p>}
+              {isExpanded && info && (
+                <p className="text-xs text-gray-400 mt-1">
+                  {[
+                    info.family && `Family: ${info.family}`,
+                    info.parameterSize && `Parameters: ${info.parameterSize}`,
+                    info.quantization && `Quantization: ${info.quantization}`,
+                    info.contextLength && `Context: up to ${info.contextLength.toLocaleString()} tokens`,
+                    info.defaultContext && `runs with ${info.defaultContext.toLocaleString()} by default`,
+                    inMemory && `In memory: ${formatBytes(inMemory.size)}`,
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={pullName}
+          onChange={(e) => setPullName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handlePull()}
+          disabled={!!pulling}
+          placeholder="Model to download, e.g. llama3.2:3b"
+          aria-label="Model to download"
+          className={inputStyles}
+        />
+        {pulling ? (
+          <button
+            type="button"
+            onClick={() => pullRef.current?.abort()}
+            className="shrink-0 whitespace-nowrap px-4 py-2 border border-red-400/50 text-red-300 hover:bg-red-500/20 hover:text-white rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handlePull}
+            disabled={!pullName.trim()}
+            className="shrink-0 whitespace-nowrap px-4 py-2 bg-accent/80 hover:bg-cyan text-white rounded-md transition-colors flex items-center justify-center disabled:bg-gray-500 disabled:text-gray-300"
+          >
+            Pull
+          </button>
+        )}
+      </div>
+
+      {pulling && progress && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            {percent === null && <SpinnerIcon />}
+            <span className="min-w-0 flex-1 truncate">
+              {pulling.name}: {progress.status}
+            </span>
+            {percent !== null && progress.total && (
+              <span className="shrink-0">
+                {formatBytes(progress.completed ?? 0)} / {formatBytes(progress.total)}
+              </span>
+            )}
+          </div>
+          {percent !== null && (
+            <div className="h-2 rounded-full bg-primary/70 overflow-hidden" role="progressbar" aria-valuenow={Math.round(percent)}>
+              <div className="h-full bg-cyan transition-[width] duration-300" style={{ width: `${percent}%` }} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-red-400 text-sm break-words">{error}</p>}
+    </div>
+  );
+};
+
+export default ModelLibrary;
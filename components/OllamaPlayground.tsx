@@ -1,10 +1,17 @@
 ﻿import React, { useState } from 'react';
 import { useSettings } from '../context/SettingsContext';
-import * as ollama from '../services/ollama';
+import { SamplingOptions } from '../types';
+import * as prompting from '../services/prompting';
+import * as schema from '../services/jsonSchema';
+import { JsonSchema, formatViolation } from '../services/jsonSchema';
 import { SpinnerIcon } from './icons/SpinnerIcon';
+import SamplingFields from './SamplingFields';
 
 type Strategy = 'json' | 'text' | 'rich' | 'grounded';
 
+/** A strategy's own parameters; anything unset comes from Settings. */
+type Overrides = SamplingOptions & { temperature?: number };
+
 const PlaygroundSection: React.FC<{ title: string; description: string; children: React.ReactNode }> = ({ title, description, children }) => (
     <div className="bg-secondary/40 border border-gray-700/50 rounded-lg p-4 sm:p-6 backdrop-blur-sm">
         <h3 className="text-lg sm:text-xl font-bold text-cyan mb-2 drop-shadow-[0_0_5px_theme(colors.cyan)]">{title}</h3>
@@ -24,15 +31,78 @@ const LabeledInput: React.FC<{ label: string; children: React.ReactNode }> = ({
 const CommonInputStyles = "w-full px-3 py-2 text-base bg-primary/70 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan focus:border-cyan transition-colors text-gray-200 placeholder-gray-500";
 const CommonButtonStyles = "px-5 py-2 bg-accent/80 hover:bg-cyan text-white rounded-md transition-colors flex items-center justify-center disabled:bg-gray-600 disabled:cursor-not-allowed w-full sm:w-40";
 
+/** A strategy's parameter overrides, folded away until needed. */
+const ParameterOverrides: React.FC<{ value: Overrides; inherited: Overrides; onChange: (change: Partial<Overrides>) => void }> = ({ value, inherited, onChange }) => {
+    const count = Object.values(value).filter((v) => v !== undefined).length;
+    return (
+        <details className="text-sm">
+            <summary className="cursor-pointer text-gray-400 hover:text-cyan select-none">
+                Parameters{count > 0 ? ` (${count} overridden)` : ''}
+            </summary>
+            <div className="mt-3 space-y-3">
+                <label className="block text-sm text-gray-400">
+                    <span className="block mb-1">Temperature</span>
+                    <input
+                        type="number"
+                        step={0.05}
+                        min={0}
+                        max={2}
+                        value={value.temperature ?? ''}
+                        onChange={(e) => onChange({ temperature: e.target.value === '' ? undefined : Number(e.target.value) })}
+                        placeholder={String(inherited.temperature)}
+                        className={CommonInputStyles}
+                    />
+                </label>
+                <SamplingFields value={value} onChange={onChange} inherited={inherited} inputClassName={CommonInputStyles} />
+            </div>
+        </details>
+    );
+};
+
+const BUTTON_SCHEMA = schema.object({
+    name: schema.string({ minLength: 1 }),
+    category: schema.enumOf(['Input', 'Display', 'Action']),
+    summary: schema.string({ description: 'A one-line description', maxLength: 120 }),
+});
+
+/** The schema box holds a JSON Schema, or failing that a plain description of the shape. */
+function readSchemaInput(text: string): JsonSchema | string {
+    try {
+        const parsed = JSON.parse(text);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+    } catch {
+        // Not JSON, so a description.
+    }
+    return text;
+}
+
+/** `base` with every option `overrides` sets. */
+function withOverrides(base: Overrides, overrides: Overrides): Overrides {
+    return { ...base, ...Object.fromEntries(Object.entries(overrides).filter(([, v]) => v !== undefined)) };
+}
+
 const OllamaPlayground: React.FC = () => {
-    const { ollamaUrl, selectedModel, temperature, connectionError } = useSettings();
+    const { provider, selectedModel, temperature, sampling, connectionError } = useSettings();
+    const inherited: Overrides = { ...sampling, temperature };
+
+    // Per-strategy parameters, so e.g. the JSON demo can run with a fixed
+    // seed and a low temperature while the others keep the Settings ones.
+    const [overrides, setOverrides] = useState<Record<Strategy, Overrides>>({ json: {}, text: {}, rich: {}, grounded: {} });
+    const overridesFor = (strategy: Strategy) => (
+        <ParameterOverrides
+            value={overrides[strategy]}
+            inherited={inherited}
+            onChange={(change) => setOverrides((prev) => ({ ...prev, [strategy]: { ...prev[strategy], ...change } }))}
+        />
+    );
 
     // State for JSON Generator
     const [jsonPrompt, setJsonPrompt] = useState('Describe a UI button component');
-    const [jsonSchema, setJsonSchema] = useState('A JSON object with keys: "name" (string), "category" (one of: "Input", "Display", "Action"), and "summary" (a one-line string description).');
+    const [jsonSchema, setJsonSchema] = useState(JSON.stringify(BUTTON_SCHEMA, null, 2));
     const [jsonResult, setJsonResult] = useState('');
     const [jsonLoading, setJsonLoading] = useState(false);
     const [jsonError, setJsonError] = useState('');
+    const [jsonViolations, setJsonViolations] = useState<string[]>([]);
 
     // State for Constrained Text
     const [constrainedText, setConstrainedText] = useState('Ollama is a powerful tool that allows you to run open-source large language models, such as Llama 3, locally. It bundles model weights, configuration, and data into a single package, managed by a Modelfile.');
@@ -56,18 +126,27 @@ const OllamaPlayground: React.FC = () => {
     const [groundedError, setGroundedError] = useState('');
 
     const handleGenerate = async (strategy: Strategy) => {
-        if (!selectedModel || !ollamaUrl) return;
-        const options = { baseUrl: ollamaUrl, model: selectedModel, temperature };
+        if (!selectedModel) return;
+        const { temperature: strategyTemperature, ...strategySampling } = withOverrides(inherited, overrides[strategy]);
+        const options = { provider, model: selectedModel, temperature: strategyTemperature, sampling: strategySampling };
 
         switch (strategy) {
             case 'json':
                 setJsonLoading(true);
                 setJsonError('');
+                setJsonViolations([]);
                 setJsonResult('');
                 try {
-                    const result = await ollama.generateJson(options, jsonPrompt, jsonSchema);
+                    const result = await prompting.generateJson(options, jsonPrompt, readSchemaInput(jsonSchema));
                     setJsonResult(JSON.stringify(result, null, 2));
-                } catch (e: any) { setJsonError(e.message); }
+                } catch (e: any) {
+                    if (prompting.isStructuredOutputError(e)) {
+                        setJsonError(`No valid answer after ${e.attempts} attempts. Last response:\n${e.response}`);
+                        setJsonViolations(e.violations.map(formatViolation));
+                    } else {
+                        setJsonError(e.message);
+                    }
+                }
                 setJsonLoading(false);
                 break;
             case 'text':
@@ -75,7 +154,7 @@ const OllamaPlayground: React.FC = () => {
                 setConstrainedError('');
                 setConstrainedResult('');
                 try {
-                    const result = await ollama.generateConstrainedText(options, constrainedText, constrainedTask);
+                    const result = await prompting.generateConstrainedText(options, constrainedText, constrainedTask);
                     setConstrainedResult(result);
                 } catch (e: any) { setConstrainedError(e.message); }
                 setConstrainedLoading(false);
@@ -85,7 +164,7 @@ const OllamaPlayground: React.FC = () => {
                 setRichError('');
                 setRichResult('');
                 try {
-                    const result = await ollama.generateRichContent(options, richPrompt, richPersona, 'Markdown');
+                    const result = await prompting.generateRichContent(options, richPrompt, richPersona, 'Markdown');
                     setRichResult(result);
                 } catch (e: any) { setRichError(e.message); }
                 setRichLoading(false);
@@ -95,7 +174,7 @@ const OllamaPlayground: React.FC = () => {
                 setGroundedError('');
                 setGroundedResult('');
                 try {
-                    const result = await ollama.generateGroundedResponse(options, groundedContext, groundedQuestion);
+                    const result = await prompting.generateGroundedResponse(options, groundedContext, groundedQuestion);
                     setGroundedResult(result);
                 } catch (e: any) { setGroundedError(e.message); }
                 setGroundedLoading(false);
@@ -118,16 +197,22 @@ const OllamaPlayground: React.FC = () => {
             <h1 className="text-2xl sm:text-4xl font-bold text-center text-gray-200">Ollama Service Playground</h1>
             
             {/* JSON Generation */}
-            <PlaygroundSection title="Structured JSON Output" description="Force the model to return a clean, syntactically correct JSON object by providing an explicit prompt and schema.">
+            <PlaygroundSection title="Structured JSON Output" description="Force the model to return a clean, syntactically correct JSON object by providing an explicit prompt and a JSON Schema. Answers that break the schema are sent back to the model with the list of problems, twice at most.">
                 <LabeledInput label="User Prompt">
                     <textarea rows={2} value={jsonPrompt} onChange={e => setJsonPrompt(e.target.value)} className={CommonInputStyles} />
                 </LabeledInput>
-                <LabeledInput label="Schema Description">
-                     <textarea rows={3} value={jsonSchema} onChange={e => setJsonSchema(e.target.value)} className={CommonInputStyles} />
+                <LabeledInput label="JSON Schema (or a plain description)">
+                     <textarea rows={8} value={jsonSchema} onChange={e => setJsonSchema(e.target.value)} className={`${CommonInputStyles} font-mono text-sm`} />
                 </LabeledInput>
+                {overridesFor('json')}
                 <button onClick={() => handleGenerate('json')} disabled={jsonLoading} className={CommonButtonStyles}>
                     {jsonLoading ? <SpinnerIcon /> : "Generate JSON"}
                 </button>
+                {jsonViolations.length > 0 && (
+                    <ul className="text-red-400 text-xs list-disc pl-5 space-y-0.5">
+                        {jsonViolations.map((violation, i) => <li key={i}>{violation}</li>)}
+                    </ul>
+                )}
                 {jsonError && <pre className="text-red-400 text-xs whitespace-pre-wrap">{jsonError}</pre>}
                 {jsonResult && <pre className="bg-primary/50 p-3 rounded-md text-cyan/90 text-sm whitespace-pre-wrap overflow-x-auto">{jsonResult}</pre>}
             </PlaygroundSection>
@@ -140,6 +225,7 @@ const OllamaPlayground: React.FC = () => {
                 <LabeledInput label="Task for the Model">
                     <input type="text" value={constrainedTask} onChange={e => setConstrainedTask(e.target.value)} className={CommonInputStyles} />
                 </LabeledInput>
+                {overridesFor('text')}
                 <button onClick={() => handleGenerate('text')} disabled={constrainedLoading} className={CommonButtonStyles}>
                     {constrainedLoading ? <SpinnerIcon /> : "Generate Text"}
                 </button>
@@ -155,6 +241,7 @@ const OllamaPlayground: React.FC = () => {
                 <LabeledInput label="Persona">
                     <input type="text" value={richPersona} onChange={e => setRichPersona(e.target.value)} className={CommonInputStyles} />
                 </LabeledInput>
+                {overridesFor('rich')}
                 <button onClick={() => handleGenerate('rich')} disabled={richLoading} className={CommonButtonStyles}>
                     {richLoading ? <SpinnerIcon /> : "Generate Report"}
                 </button>
@@ -170,6 +257,7 @@ const OllamaPlayground: React.FC = () => {
                 <LabeledInput label="Question">
                     <input type="text" value={groundedQuestion} onChange={e => setGroundedQuestion(e.target.value)} className={CommonInputStyles} />
                 </LabeledInput>
+                {overridesFor('grounded')}
                 <button onClick={() => handleGenerate('grounded')} disabled={groundedLoading} className={CommonButtonStyles}>
                     {groundedLoading ? <SpinnerIcon /> : "Get Answer"}
                 </button>
@@ -0,0 +1,71 @@
+import React, { FC } from 'react';
+import { SamplingOptions } from '../types';
+
+type NumberOption = Exclude<keyof SamplingOptions, 'stop' | 'keepAlive'>;
+
+const NUMBER_FIELDS: { key: NumberOption; label: string; step: number; min: number; max?: number; hint: string }[] = [
+  { key: 'seed', label: 'Seed', step: 1, min: 0, hint: 'The same seed, prompt and settings give the same answer every time.' },
+  { key: 'topP', label: 'Top P', step: 0.05, min: 0, max: 1, hint: 'Samples only from the likeliest tokens adding up to this probability.' },
+  { key: 'topK', label: 'Top K', step: 1, min: 1, hint: 'Samples only from this many of the likeliest tokens.' },
+  { key: 'repeatPenalty', label: 'Repeat penalty', step: 0.05, min: 0, max: 2, hint: 'Above 1 discourages repeating itself.' },
+  { key: 'numPredict', label: 'Max tokens', step: 1, min: -1, hint: 'The most tokens in an answer; -1 for no limit.' },
+  { key: 'numCtx', label: 'Context size', step: 256, min: 256, hint: 'Tokens of conversation the model can see. Ollama only; more uses more memory.' },
+];
+
+interface SamplingFieldsProps {
+  value: SamplingOptions;
+  /** An option set to undefined goes back to `inherited`, or the server's default. */
+  onChange: (change: Partial<SamplingOptions>) => void;
+  /** What applies to each option left empty here, shown as its placeholder. */
+  inherited?: SamplingOptions;
+  inputClassName: string;
+}
+
+/**
+ * Inputs for the sampling options beyond temperature. Empty means unset, so
+ * the placeholder says what is used instead.
+ */
+const SamplingFields: FC<SamplingFieldsProps> = ({ value, onChange, inherited = {}, inputClassName }) => {
+  const inheritedStop = inherited.stop?.filter(Boolean).join(', ');
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {NUMBER_FIELDS.map(({ key, label, step, min, max, hint }) => (
+        <label key={key} className="block text-sm text-gray-400" title={hint}>
+          <span className="block mb-1">{label}</span>
+          <input
+            type="number"
+            step={step}
+            min={min}
+            max={max}
+            value={value[key] ?? ''}
+            onChange={(e) => onChange({ [key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+            placeholder={inherited[key] !== undefined ? String(inherited[key]) : key === 'seed' ? 'Random' : 'Default'}
+            className={inputClassName}
+          />
+        </label>
+      ))}
+      <label className="block text-sm text-gray-400" title="How long the model stays loaded after answering. -1 keeps it loaded; 0 unloads it at once. Ollama only.">
+        <span className="block mb-1">Keep loaded for</span>
+        <input
+          type="text"
+          value={value.keepAlive ?? ''}
+          onChange={(e) => onChange({ keepAlive: e.target.value || undefined })}
+          placeholder={inherited.keepAlive || 'e.g. 10m, 1h or -1'}
+          className={inputClassName}
+        />
+      </label>
+      <label className="block text-sm text-gray-400" title="The answer ends at any of these. One per line.">
+        <span className="block mb-1">Stop sequences</span>
+        <textarea
+          rows={2}
+          value={value.stop?.join('\n') ?? ''}
+          onChange={(e) => onChange({ stop: e.target.value ? e.target.value.split('\n') : undefined })}
+          placeholder={inheritedStop || 'One per line'}
+          className={inputClassName}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default SamplingFields;
@@ -1,15 +1,24 @@
 
-import React, { FC, ReactNode } from 'react';
+import React, { FC, ReactNode, useEffect, useRef, useState } from 'react';
 import { useSettings } from '../context/SettingsContext';
+import { SttEngine, TtsEngine, CaptionMode, LlmProviderKind } from '../types';
+import { useVoices } from '../hooks/useVoices';
+import { SpeechSynthesizer, createSynthesizer } from '../services/tts';
+import { downloadFile } from '../services/conversationExport';
+import { contextWindow } from '../services/contextBudget';
 import { SpinnerIcon } from './icons/SpinnerIcon';
+import ModelLibrary from './ModelLibrary';
+import CapabilityBadges, { CAPABILITY_LABELS } from './CapabilityBadges';
+import SamplingFields from './SamplingFields';
 import { BACKDROP_ORDER, BACKDROP_PRESETS } from './backdropPresets';
+import { SPEECH_LANGUAGES, findSpeechLanguage, voiceMatchesLanguage } from './speechLanguages';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-/** Groups related settings so the panel reads as three short lists rather than one long one. */
+/** Groups related settings so the panel reads as a few short lists rather than one long one. */
 const Section: FC<{ title: string; children: ReactNode }> = ({ title, children }) => (
   <section className="mb-7 last:mb-0">
     <h3 className="text-xs font-semibold uppercase tracking-[0.15em] text-accent/70 mb-3 pb-1.5 border-b border-accent/15">
@@ -35,28 +44,171 @@ const Field: FC<{ label: string; htmlFor?: string; help?: string; children: Reac
 const inputStyles =
   'w-full min-w-0 px-4 py-2 text-base bg-primary/70 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-cyan focus:border-cyan transition-colors';
 
+const Checkbox: FC<{ label: string; checked: boolean; onChange: (checked: boolean) => void; disabled?: boolean }> = ({
+  label,
+  checked,
+  onChange,
+  disabled,
+}) => (
+  <label className={`flex items-center gap-2 text-sm ${disabled ? 'text-gray-500' : 'text-gray-300 cursor-pointer'}`}>
+    <input
+      type="checkbox"
+      checked={checked}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.checked)}
+      className="w-4 h-4 accent-cyan"
+    />
+    {label}
+  </label>
+);
+
+/**
+ * A text field that only commits on blur or Enter, for settings where every
+ * change restarts something: a new speech server address rebuilds the
+ * recognizer and restarts the microphone, which should not happen per keystroke.
+ */
+const CommitOnBlurInput: FC<{ id: string; value: string; onCommit: (value: string) => void; placeholder?: string }> = ({
+  id,
+  value,
+  onCommit,
+  placeholder,
+}) => {
+  const [draft, setDraft] = useState(value);
+  // Changes made elsewhere (an import, another tab) replace the draft.
+  useEffect(() => setDraft(value), [value]);
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+  return (
+    <input
+      type="text"
+      id={id}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      className={inputStyles}
+      placeholder={placeholder}
+    />
+  );
+};
+
+const rangeStyles = 'w-full h-2 bg-primary/70 rounded-lg appearance-none cursor-pointer accent-cyan';
+
+const secondaryButtonStyles =
+  'shrink-0 whitespace-nowrap px-4 py-2 bg-accent/80 hover:bg-cyan text-white rounded-md transition-colors flex items-center justify-center disabled:bg-gray-500 disabled:text-gray-300';
+
+const PREVIEW_TEXT = 'Hello. This is how I will sound when I answer your questions.';
+
 const SettingsModal: FC<SettingsModalProps> = ({ isOpen, onClose }) => {
   const {
-    ollamaUrl,
-    setOllamaUrl,
+    llmProvider,
+    setLlmProvider,
+    llmUrl,
+    setLlmUrl,
     selectedModel,
     setSelectedModel,
     systemPrompt,
     setSystemPrompt,
     temperature,
     setTemperature,
+    think,
+    setThink,
+    sampling,
+    setSampling,
     triggerWord,
     setTriggerWord,
+    wakeWordSensitivity,
+    setWakeWordSensitivity,
+    followUpSeconds,
+    setFollowUpSeconds,
     backdropTheme,
     setBackdropTheme,
+    voice,
+    setVoice,
+    language,
+    setLanguage,
+    respondInLanguage,
+    setRespondInLanguage,
+    sttEngine,
+    setSttEngine,
+    whisperUrl,
+    setWhisperUrl,
+    vad,
+    setVad,
+    ttsEngine,
+    setTtsEngine,
+    ttsUrl,
+    setTtsUrl,
+    captions,
+    setCaptions,
+    personas,
+    activePersonaId,
+    savePersona,
+    switchPersona,
+    deletePersona,
+    exportSettings,
+    importSettings,
+    resetSettings,
+    provider,
     availableModels,
+    modelDetails,
     refreshModels,
     isModelLoading,
     connectionError,
   } = useSettings();
+  const voices = useVoices();
+  const [filterVoices, setFilterVoices] = useState(true);
+  const previewRef = useRef<SpeechSynthesizer | null>(null);
+  const [personaName, setPersonaName] = useState('');
+  const [personaGreeting, setPersonaGreeting] = useState('');
+  const [fileStatus, setFileStatus] = useState<{ error: boolean; text: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => () => previewRef.current?.dispose(), []);
 
   if (!isOpen) return null;
 
+  const selectedDetails = modelDetails[selectedModel];
+  const canThink = !!selectedDetails?.capabilities.includes('thinking');
+  const selectedWindow = contextWindow(selectedDetails, sampling.numCtx);
+
+  const languageInfo = findSpeechLanguage(language);
+  const listedVoices =
+    filterVoices && language ? voices.filter((v) => voiceMatchesLanguage(v.lang, language)) : voices;
+
+  // Goes through the same engine as replies, so a misconfigured TTS server
+  // shows up here rather than in the middle of a conversation.
+  const previewVoice = () => {
+    previewRef.current?.dispose();
+    const synthesizer = createSynthesizer({ engine: ttsEngine, ttsUrl });
+    previewRef.current = synthesizer;
+    synthesizer.speak(PREVIEW_TEXT, { voice, language }, () => {});
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Cleared so choosing the same file again still fires a change.
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const problems = importSettings(await file.text());
+      setFileStatus(
+        problems.length === 0
+          ? { error: false, text: 'Settings imported.' }
+          : { error: true, text: `Settings imported, but some were unusable and kept their defaults: ${problems.join(' ')}` }
+      );
+    } catch (error) {
+      setFileStatus({ error: true, text: error instanceof Error ? error.message : 'The import failed.' });
+    }
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Reset every setting, including personas, to the defaults?')) return;
+    resetSettings();
+    setFileStatus({ error: false, text: 'Settings reset to the defaults.' });
+  };
+
   return (
     <div
       className="fixed inset-0 bg-primary/70 backdrop-blur-md flex items-center justify-center z-50 p-4 transition-opacity duration-300"
@@ -79,20 +231,115 @@ const SettingsModal: FC<SettingsModalProps> = ({ isOpen, onClose }) => {
           </button>
         </div>
 
+        <Section title="Personas">
+          {personas.length > 0 && (
+            <ul className="space-y-2">
+              {personas.map((persona) => {
+                const isActive = persona.id === activePersonaId;
+                return (
+                  <li
+                    key={persona.id}
+                    className={`flex items-center gap-2 p-2 rounded-md border ${isActive ? 'border-cyan bg-cyan/10' : 'border-gray-600'}`}
+                  >
+                    <span className="min-w-0 flex-1 truncate text-sm">
+                      {persona.name}
+                      <span className="text-gray-500"> · {persona.selectedModel}</span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setPersonaName(persona.name);
+                        setPersonaGreeting(persona.greeting);
+                        switchPersona(persona.id);
+                      }}
+                      disabled={isActive}
+                      className="shrink-0 px-3 py-1 text-sm bg-accent/80 hover:bg-cyan text-white rounded-md transition-colors disabled:bg-transparent disabled:text-cyan"
+                    >
+                      {isActive ? 'Active' : 'Switch'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => deletePersona(persona.id)}
+                      aria-label={`Delete ${persona.name}`}
+                      className="shrink-0 p-1 rounded-full text-gray-400 hover:text-red-300 hover:bg-red-500/20 transition-colors"
+                    >
+                      ✕
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          <Field
+            label="Save Current Settings as Persona"
+            htmlFor="personaName"
+            help="Keeps the system prompt, model, temperature and other sampling options, voice, trigger words and backdrop below under this name; saving an existing name updates it. Switch by voice with “switch to” and the name."
+          >
+            <div className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="text"
+                id="personaName"
+                value={personaName}
+                onChange={(e) => setPersonaName(e.target.value)}
+                className={inputStyles}
+                placeholder="e.g., Receptionist"
+              />
+              <button
+                type="button"
+                onClick={() => savePersona(personaName, personaGreeting)}
+                disabled={!personaName.trim()}
+                className={secondaryButtonStyles}
+              >
+                {personas.some((p) => p.name.toLowerCase() === personaName.trim().toLowerCase()) ? 'Update' : 'Save'}
+              </button>
+            </div>
+          </Field>
+          <Field
+            label="Greeting"
+            htmlFor="personaGreeting"
+            help="Said in the persona's voice after switching to it. Leave empty for a short hello with its name."
+          >
+            <input
+              type="text"
+              id="personaGreeting"
+              value={personaGreeting}
+              onChange={(e) => setPersonaGreeting(e.target.value)}
+              className={inputStyles}
+              placeholder="e.g., Welcome! How can I help you today?"
+            />
+          </Field>
+        </Section>
+
         <Section title="Connection">
-          <Field label="Ollama Server URL" htmlFor="ollamaUrl">
+          <Field
+            label="Model Server"
+            htmlFor="llmProvider"
+            help="llama.cpp server, LM Studio and vLLM speak the OpenAI-compatible API."
+          >
+            <select
+              id="llmProvider"
+              value={llmProvider}
+              onChange={(e) => setLlmProvider(e.target.value as LlmProviderKind)}
+              className={inputStyles}
+            >
+              <option value="ollama">Ollama</option>
+              <option value="openai">OpenAI-compatible (llama.cpp, LM Studio)</option>
+            </select>
+          </Field>
+
+          <Field label="Server URL" htmlFor="llmUrl">
             <div className="flex flex-col sm:flex-row sm:items-center gap-2">
               <input
                 type="text"
-                id="ollamaUrl"
-                value={ollamaUrl}
-                onChange={(e) => setOllamaUrl(e.target.value)}
+                id="llmUrl"
+                value={llmUrl}
+                onChange={(e) => setLlmUrl(e.target.value)}
                 className={inputStyles}
               />
               <button
                 onClick={() => refreshModels()}
                 disabled={isModelLoading}
-                className="shrink-0 whitespace-nowrap px-4 py-2 bg-accent/80 hover:bg-cyan text-white rounded-md transition-colors flex items-center justify-center disabled:bg-gray-500 disabled:text-gray-300"
+                className={secondaryButtonStyles}
               >
                 {isModelLoading ? <SpinnerIcon /> : 'Test & Refresh'}
               </button>
@@ -100,7 +347,19 @@ const SettingsModal: FC<SettingsModalProps> = ({ isOpen, onClose }) => {
             {connectionError && <p className="text-red-400 text-sm mt-2">{connectionError}</p>}
           </Field>
 
-          <Field label="AI Model" htmlFor="modelSelect">
+          <Field
+            label="AI Model"
+            htmlFor="modelSelect"
+            help={
+              selectedWindow
+                ? `Remembers about ${selectedWindow.toLocaleString()} tokens of conversation${
+                    selectedDetails?.contextLength && selectedDetails.contextLength > selectedWindow
+                      ? `; it can take up to ${selectedDetails.contextLength.toLocaleString()} with a larger context size under Advanced`
+                      : ''
+                  }.`
+                : undefined
+            }
+          >
             <select
               id="modelSelect"
               value={selectedModel}
@@ -109,21 +368,38 @@ const SettingsModal: FC<SettingsModalProps> = ({ isOpen, onClose }) => {
               className={`${inputStyles} disabled:opacity-50`}
             >
               {availableModels.length > 0 ? (
-                availableModels.map((model) => (
-                  <option key={model.name} value={model.name}>{model.name}</option>
-                ))
+                availableModels.map((model) => {
+                  const capabilities = modelDetails[model.name]?.capabilities ?? [];
+                  return (
+                    <option key={model.name} value={model.name}>
+                      {model.name}
+                      {capabilities.length > 0 && ` (${capabilities.map((c) => CAPABILITY_LABELS[c]).join(', ')})`}
+                    </option>
+                  );
+                })
               ) : (
                 <option>{isModelLoading ? 'Loading models...' : 'No models found'}</option>
               )}
             </select>
+            {selectedDetails && selectedDetails.capabilities.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                <CapabilityBadges capabilities={selectedDetails.capabilities} />
+              </div>
+            )}
           </Field>
+
+          {provider.models && (
+            <Field label="Models on the Server" help="Pulled models appear in the list above once downloaded.">
+              <ModelLibrary />
+            </Field>
+          )}
         </Section>
 
         <Section title="Assistant">
           <Field
-            label="Trigger Word"
+            label="Trigger Words"
             htmlFor="triggerWord"
-            help="The phrase that activates listening. Keep it simple and lowercase."
+            help={`The phrase that activates listening${languageInfo ? ` in ${languageInfo.label}` : ''}; separate several with commas. Say your question straight after it to skip a step. Each language remembers its own.`}
           >
             <input
               type="text"
@@ -131,7 +407,41 @@ const SettingsModal: FC<SettingsModalProps> = ({ isOpen, onClose }) => {
               value={triggerWord}
               onChange={(e) => setTriggerWord(e.target.value.toLowerCase())}
               className={inputStyles}
-              placeholder="e.g., hey assistant"
+              placeholder="e.g., hey assistant, jarvis"
+            />
+          </Field>
+
+          <Field
+            label={`Trigger word sensitivity: ${Math.round(wakeWordSensitivity * 100)}%`}
+            htmlFor="wakeWordSensitivity"
+            help="Higher accepts near misses such as “hey assistance”, at the risk of waking on similar-sounding speech."
+          >
+            <input
+              type="range"
+              id="wakeWordSensitivity"
+              min="0"
+              max="1"
+              step="0.05"
+              value={wakeWordSensitivity}
+              onChange={(e) => setWakeWordSensitivity(parseFloat(e.target.value))}
+              className={rangeStyles}
+            />
+          </Field>
+
+          <Field
+            label={`Follow-up window: ${followUpSeconds > 0 ? `${followUpSeconds} s` : 'off'}`}
+            htmlFor="followUpSeconds"
+            help="After answering a spoken question, keep listening this long so a follow-up needs no trigger word. The hologram counts it down."
+          >
+            <input
+              type="range"
+              id="followUpSeconds"
+              min="0"
+              max="15"
+              step="1"
+              value={followUpSeconds}
+              onChange={(e) => setFollowUpSeconds(parseInt(e.target.value, 10))}
+              className={rangeStyles}
             />
           </Field>
 
@@ -154,9 +464,260 @@ const SettingsModal: FC<SettingsModalProps> = ({ isOpen, onClose }) => {
               step="0.01"
               value={temperature}
               onChange={(e) => setTemperature(parseFloat(e.target.value))}
-              className="w-full h-2 bg-primary/70 rounded-lg appearance-none cursor-pointer accent-cyan"
+              className={rangeStyles}
+            />
+          </Field>
+
+          <Field label="Thinking" help="Slower, but often better on hard questions. Only for models marked Thinking.">
+            <Checkbox label="Let the model reason before answering" checked={think && canThink} onChange={setThink} disabled={!canThink} />
+          </Field>
+        </Section>
+
+        <Section title="Language">
+          <Field
+            label="Speech Language"
+            htmlFor="language"
+            help="What the microphone listens for and which voices fit. Browser default follows the system locale."
+          >
+            <select
+              id="language"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              className={inputStyles}
+            >
+              <option value="">Browser default</option>
+              {SPEECH_LANGUAGES.map((l) => (
+                <option key={l.code} value={l.code}>{l.label}</option>
+              ))}
+            </select>
+          </Field>
+          <Checkbox
+            label={languageInfo ? `Always respond in ${languageInfo.name}` : 'Always respond in the speech language'}
+            checked={respondInLanguage}
+            onChange={setRespondInLanguage}
+            disabled={!languageInfo}
+          />
+        </Section>
+
+        <Section title="Speech Input">
+          <Field label="Recognition Engine" htmlFor="sttEngine">
+            <select
+              id="sttEngine"
+              value={sttEngine}
+              onChange={(e) => setSttEngine(e.target.value as SttEngine)}
+              className={inputStyles}
+            >
+              <option value="webspeech">Browser (Web Speech API)</option>
+              <option value="whisper">Local Whisper server</option>
+            </select>
+          </Field>
+          {sttEngine === 'whisper' ? (
+            <Field
+              label="Whisper Server Endpoint"
+              htmlFor="whisperUrl"
+              help="A whisper.cpp server (whisper-server) or anything that accepts the same multipart POST. Audio never leaves this network."
+            >
+              <CommitOnBlurInput
+                id="whisperUrl"
+                value={whisperUrl}
+                onCommit={setWhisperUrl}
+                placeholder="http://localhost:8080/inference"
+              />
+            </Field>
+          ) : (
+            <p className="text-xs text-gray-500">
+              Chrome sends microphone audio to a cloud service for recognition, and Firefox has no recognizer at all.
+              Use a local Whisper server to keep speech on this network.
+            </p>
+          )}
+
+          <Field
+            label="End of Speech"
+            help="Decide from the microphone level when you have finished talking, instead of leaving it to the recognizer. Helps when it cuts you off mid-sentence or never stops listening in a noisy room."
+          >
+            <Checkbox label="Detect when I stop talking" checked={vad.enabled} onChange={(enabled) => setVad({ enabled })} />
+          </Field>
+
+          {vad.enabled && (
+            <>
+              <Field label={`Silence before the turn ends: ${(vad.silenceMs / 1000).toFixed(1)} s`} htmlFor="vadSilence">
+                <input
+                  type="range"
+                  id="vadSilence"
+                  min="400"
+                  max="4000"
+                  step="100"
+                  value={vad.silenceMs}
+                  onChange={(e) => setVad({ silenceMs: parseInt(e.target.value, 10) })}
+                  className={rangeStyles}
+                />
+              </Field>
+
+              <Field label={`Minimum speech length: ${vad.minSpeechMs} ms`} htmlFor="vadMinSpeech">
+                <input
+                  type="range"
+                  id="vadMinSpeech"
+                  min="100"
+                  max="1500"
+                  step="50"
+                  value={vad.minSpeechMs}
+                  onChange={(e) => setVad({ minSpeechMs: parseInt(e.target.value, 10) })}
+                  className={rangeStyles}
+                />
+              </Field>
+
+              <Field
+                label={`Speech threshold: ${vad.threshold.toFixed(3)}`}
+                htmlFor="vadThreshold"
+                help="Raise it if background noise keeps the turn open; lower it if quiet speech is missed. The white tick on the level meter next to the mic button marks it."
+              >
+                <input
+                  type="range"
+                  id="vadThreshold"
+                  min="0.005"
+                  max="0.1"
+                  step="0.005"
+                  value={vad.threshold}
+                  onChange={(e) => setVad({ threshold: parseFloat(e.target.value) })}
+                  className={rangeStyles}
+                />
+              </Field>
+            </>
+          )}
+        </Section>
+
+        <Section title="Voice">
+          <Field label="Speech Engine" htmlFor="ttsEngine">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+              <select
+                id="ttsEngine"
+                value={ttsEngine}
+                onChange={(e) => setTtsEngine(e.target.value as TtsEngine)}
+                className={inputStyles}
+              >
+                <option value="webspeech">Browser voices</option>
+                <option value="http">Local TTS server</option>
+              </select>
+              {ttsEngine === 'http' && (
+                <button type="button" onClick={previewVoice} className={secondaryButtonStyles}>
+                  Preview voice
+                </button>
+              )}
+            </div>
+          </Field>
+
+          {ttsEngine === 'http' ? (
+            <Field
+              label="TTS Server Endpoint"
+              htmlFor="ttsUrl"
+              help="A Piper or Coqui TTS server that answers GET ?text=… with a WAV. Add fixed parameters such as speaker_id to the URL itself."
+            >
+              <CommitOnBlurInput
+                id="ttsUrl"
+                value={ttsUrl}
+                onCommit={setTtsUrl}
+                placeholder="http://localhost:5002/api/tts"
+              />
+            </Field>
+          ) : (
+            <Field
+              label="Voice"
+              htmlFor="voiceSelect"
+              help="Pick one explicitly on a kiosk: the browser default differs from machine to machine."
+            >
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <select
+                  id="voiceSelect"
+                  value={voice.voiceURI}
+                  onChange={(e) => setVoice({ voiceURI: e.target.value })}
+                  className={inputStyles}
+                >
+                  <option value="">Browser default</option>
+                  {listedVoices.map((v) => (
+                    <option key={v.voiceURI} value={v.voiceURI}>
+                      {v.name} ({v.lang}){v.localService ? '' : ' · online'}
+                    </option>
+                  ))}
+                  {/* Keep a saved voice visible even on a machine that lacks it,
+                      rather than silently showing the default as selected. */}
+                  {voice.voiceURI && voices.length > 0 && !voices.some((v) => v.voiceURI === voice.voiceURI) && (
+                    <option value={voice.voiceURI}>{voice.voiceURI} (not installed here)</option>
+                  )}
+                </select>
+                <button type="button" onClick={previewVoice} className={secondaryButtonStyles}>
+                  Preview voice
+                </button>
+              </div>
+              {language && (
+                <div className="mt-2">
+                  <Checkbox
+                    label={`Only voices for ${languageInfo?.label ?? language}`}
+                    checked={filterVoices}
+                    onChange={setFilterVoices}
+                  />
+                </div>
+              )}
+            </Field>
+          )}
+
+          <Field label={`Rate: ${voice.rate.toFixed(2)}`} htmlFor="voiceRate">
+            <input
+              type="range"
+              id="voiceRate"
+              min="0.5"
+              max="2"
+              step="0.05"
+              value={voice.rate}
+              onChange={(e) => setVoice({ rate: parseFloat(e.target.value) })}
+              className={rangeStyles}
             />
           </Field>
+
+          {/* A server voice's pitch is baked into its model. */}
+          {ttsEngine === 'webspeech' && (
+            <Field label={`Pitch: ${voice.pitch.toFixed(2)}`} htmlFor="voicePitch">
+              <input
+                type="range"
+                id="voicePitch"
+                min="0"
+                max="2"
+                step="0.05"
+                value={voice.pitch}
+                onChange={(e) => setVoice({ pitch: parseFloat(e.target.value) })}
+                className={rangeStyles}
+              />
+            </Field>
+          )}
+
+          <Field label={`Volume: ${Math.round(voice.volume * 100)}%`} htmlFor="voiceVolume">
+            <input
+              type="range"
+              id="voiceVolume"
+              min="0"
+              max="1"
+              step="0.05"
+              value={voice.volume}
+              onChange={(e) => setVoice({ volume: parseFloat(e.target.value) })}
+              className={rangeStyles}
+            />
+          </Field>
+
+          <Field
+            label="Captions"
+            htmlFor="captions"
+            help="What you say is always captioned while the assistant listens. Captions only shows replies at reading pace without speaking them; the rate above sets the pace."
+          >
+            <select
+              id="captions"
+              value={captions}
+              onChange={(e) => setCaptions(e.target.value as CaptionMode)}
+              className={inputStyles}
+            >
+              <option value="on">Show captions of the assistant's voice</option>
+              <option value="off">No captions for the assistant</option>
+              <option value="only">Captions only, no voice</option>
+            </select>
+          </Field>
         </Section>
 
         <Section title="Appearance">
@@ -197,6 +758,43 @@ const SettingsModal: FC<SettingsModalProps> = ({ isOpen, onClose }) => {
           </Field>
         </Section>
 
+        <Section title="Advanced">
+          <Field label="Sampling" help="Leave a field empty for the model's own default. Hover a field for what it does. A fixed seed makes answers repeatable, for demos.">
+            <SamplingFields value={sampling} onChange={setSampling} inputClassName={inputStyles} />
+          </Field>
+        </Section>
+
+        <Section title="Settings File">
+          <Field
+            label="Copy to Other Kiosks"
+            help="Export saves every setting here, personas included, to a file. Importing that file elsewhere replaces all of that device's settings."
+          >
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => downloadFile(`hologram-settings-${new Date().toISOString().slice(0, 10)}.json`, exportSettings(), 'application/json')}
+                className={secondaryButtonStyles}
+              >
+                Export
+              </button>
+              <button type="button" onClick={() => importInputRef.current?.click()} className={secondaryButtonStyles}>
+                Import
+              </button>
+              <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImport} hidden />
+              <button
+                type="button"
+                onClick={handleReset}
+                className="shrink-0 whitespace-nowrap px-4 py-2 border border-red-400/50 text-red-300 hover:bg-red-500/20 hover:text-white rounded-md transition-colors"
+              >
+                Reset to Defaults
+              </button>
+            </div>
+            {fileStatus && (
+              <p className={`text-xs mt-2 break-words ${fileStatus.error ? 'text-red-400' : 'text-accent/80'}`}>{fileStatus.text}</p>
+            )}
+          </Field>
+        </Section>
+
         <div className="flex justify-end pt-2">
           <button
             onClick={onClose}
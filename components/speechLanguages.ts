@@ -0,0 +1,47 @@
+// Plain data, like backdropPresets.ts: the settings panel, the speech hook and
+// the chat view all read it, and none of them should pull the others in.
+
+export interface SpeechLanguage {
+  /** BCP 47 tag handed to SpeechRecognition.lang and SpeechSynthesisUtterance.lang. */
+  code: string;
+  /** How the language names itself in the settings list. */
+  label: string;
+  /** The English name, used in the "respond in" instruction to the model. */
+  name: string;
+  /** Suggested wake phrase for speakers of the language, until one is set. */
+  triggerWord: string;
+}
+
+export const SPEECH_LANGUAGES: SpeechLanguage[] = [
+  { code: 'en-US', label: 'English (US)', name: 'English', triggerWord: 'hey assistant' },
+  { code: 'en-GB', label: 'English (UK)', name: 'English', triggerWord: 'hey assistant' },
+  { code: 'es-ES', label: 'Español (España)', name: 'Spanish', triggerWord: 'oye asistente' },
+  { code: 'es-MX', label: 'Español (México)', name: 'Spanish', triggerWord: 'oye asistente' },
+  { code: 'fil-PH', label: 'Filipino (Tagalog)', name: 'Tagalog', triggerWord: 'hoy assistant' },
+  { code: 'fr-FR', label: 'Français', name: 'French', triggerWord: 'hé assistant' },
+  { code: 'de-DE', label: 'Deutsch', name: 'German', triggerWord: 'hey assistent' },
+  { code: 'pt-BR', label: 'Português (Brasil)', name: 'Portuguese', triggerWord: 'ei assistente' },
+];
+
+export function findSpeechLanguage(code: string): SpeechLanguage | undefined {
+  return SPEECH_LANGUAGES.find((language) => language.code === code);
+}
+
+// Voices and recognizers disagree on Tagalog: Chrome recognizes "fil-PH" while
+// most installed voices report "tl-PH". They are the same language here.
+const primarySubtag = (tag: string) => {
+  const primary = tag.toLowerCase().split(/[-_]/)[0];
+  return primary === 'tl' ? 'fil' : primary;
+};
+
+/** Whether a voice's `lang` speaks `code`, ignoring region so an en-GB voice still counts for en-US. */
+export function voiceMatchesLanguage(voiceLang: string, code: string): boolean {
+  return primarySubtag(voiceLang) === primarySubtag(code);
+}
+
+/** Appends the "respond in" instruction when it is turned on and a language is set. */
+export function withLanguageInstruction(systemPrompt: string, code: string, respondInLanguage: boolean): string {
+  const language = findSpeechLanguage(code);
+  if (!respondInLanguage || !language) return systemPrompt;
+  return `${systemPrompt.trim()}\n\nAlways respond in ${language.name}, whatever language the question is asked in.`;
+}
@@ -1,88 +1,239 @@
 
-import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
-import { Settings, OllamaModel, BackdropTheme } from '../types';
-import { getModels } from '../services/ollama';
+import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback, useMemo, useRef } from 'react';
+import { Settings, LlmModel, LlmProviderKind, BackdropTheme, VoiceSettings, SttEngine, TtsEngine, VadSettings, CaptionMode, SamplingOptions } from '../types';
+import { LlmProvider, ModelDetails, DEFAULT_SERVER_URLS, createProvider } from '../services/llmProvider';
+import { findSpeechLanguage } from '../components/speechLanguages';
+import { createPersona, personaSettingsFrom } from '../services/personas';
+import { defaultSettings, parseSettingsJson, readSettings, serializeSettings } from '../services/settingsSchema';
 
 interface SettingsContextType extends Settings {
-  setOllamaUrl: (url: string) => void;
+  /** Switches API, bringing along that server's default address unless a custom one was set. */
+  setLlmProvider: (kind: LlmProviderKind) => void;
+  setLlmUrl: (url: string) => void;
   setSelectedModel: (model: string) => void;
   setSystemPrompt: (prompt: string) => void;
   setTemperature: (temp: number) => void;
+  setThink: (think: boolean) => void;
+  /** Changes some sampling options; one set to undefined goes back to the server's default. */
+  setSampling: (sampling: Partial<SamplingOptions>) => void;
   setTriggerWord: (word: string) => void;
+  setWakeWordSensitivity: (sensitivity: number) => void;
+  setFollowUpSeconds: (seconds: number) => void;
   setBackdropTheme: (theme: BackdropTheme) => void;
-  availableModels: OllamaModel[];
+  setVoice: (voice: Partial<VoiceSettings>) => void;
+  setLanguage: (language: string) => void;
+  setRespondInLanguage: (respond: boolean) => void;
+  setSttEngine: (engine: SttEngine) => void;
+  setWhisperUrl: (url: string) => void;
+  setVad: (vad: Partial<VadSettings>) => void;
+  setTtsEngine: (engine: TtsEngine) => void;
+  setTtsUrl: (url: string) => void;
+  setCaptions: (mode: CaptionMode) => void;
+  /** Saves the current settings as a persona, replacing any of the same name, and makes it the active one. */
+  savePersona: (name: string, greeting: string) => void;
+  switchPersona: (id: string) => void;
+  deletePersona: (id: string) => void;
+  /** Everything above as a settings file, for setting up another kiosk the same way. */
+  exportSettings: () => string;
+  /**
+   * Replaces every setting with those in a settings file. Returns the fields
+   * that were unusable and kept their defaults; throws if the file is not
+   * settings at all.
+   */
+  importSettings: (json: string) => string[];
+  resetSettings: () => void;
+  /** The model server, ready to use; replaced whenever the provider or its URL changes. */
+  provider: LlmProvider;
+  availableModels: LlmModel[];
+  /**
+   * What the server told us about each model: context length, family and
+   * capabilities. Filled in shortly after availableModels; a model missing
+   * here is treated as plain chat with an unknown context.
+   */
+  modelDetails: Record<string, ModelDetails>;
   refreshModels: () => Promise<void>;
   isModelLoading: boolean;
   connectionError: string | null;
 }
 
-const defaultSettings: Settings = {
-  ollamaUrl: 'http://localhost:11434',
-  selectedModel: 'gemma2:2b',
-  systemPrompt: 'You are a helpful and concise AI assistant.',
-  temperature: 0.7,
-  triggerWord: 'hey assistant',
-  backdropTheme: 'nature',
-};
+const STORAGE_KEY = 'ai-chat-settings';
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
 
 export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  // The defaults put in place of saved settings that could not be read at
+  // all, e.g. ones saved by a newer version of the app. While nothing has
+  // been changed they are not written back, so opening an older build (or an
+  // older tab) does not wipe the kiosk's configuration.
+  const unreadableFallbackRef = useRef<Settings | null>(null);
   const [settings, setSettings] = useState<Settings>(() => {
     try {
-      const savedSettings = localStorage.getItem('ai-chat-settings');
+      const savedSettings = localStorage.getItem(STORAGE_KEY);
       if (savedSettings) {
-        const parsed = JSON.parse(savedSettings);
-        // Ensure default values for any missing keys
-        return { ...defaultSettings, ...parsed };
+        // Anything unusable falls back to its default, field by field.
+        const { settings: loaded, problems } = readSettings(JSON.parse(savedSettings));
+        if (problems.length > 0) console.warn('Some saved settings were reset:', problems);
+        return loaded;
       }
     } catch (error) {
       console.error('Failed to load settings from localStorage', error);
+      unreadableFallbackRef.current = { ...defaultSettings };
+      return unreadableFallbackRef.current;
     }
     return defaultSettings;
   });
 
-  const [availableModels, setAvailableModels] = useState<OllamaModel[]>([]);
+  const [availableModels, setAvailableModels] = useState<LlmModel[]>([]);
+  const [modelDetails, setModelDetails] = useState<Record<string, ModelDetails>>({});
   const [isModelLoading, setIsModelLoading] = useState(true);
   const [connectionError, setConnectionError] = useState<string | null>(null);
 
   useEffect(() => {
-    localStorage.setItem('ai-chat-settings', JSON.stringify(settings));
+    if (settings === unreadableFallbackRef.current) return;
+    const serialized = serializeSettings(settings);
+    // Settings that just arrived from another tab are already stored; writing
+    // them again would only echo them back.
+    if (localStorage.getItem(STORAGE_KEY) !== serialized) localStorage.setItem(STORAGE_KEY, serialized);
   }, [settings]);
 
+  // Other tabs of the app save to the same key; take their changes live, so
+  // a setting changed in one tab is not overwritten by a stale copy in another.
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== STORAGE_KEY) return;
+      try {
+        setSettings(event.newValue ? readSettings(JSON.parse(event.newValue)).settings : defaultSettings);
+      } catch (error) {
+        console.error('Failed to read settings changed in another tab', error);
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const provider = useMemo(
+    () => createProvider(settings.llmProvider, settings.llmUrl),
+    [settings.llmProvider, settings.llmUrl]
+  );
+
+  const modelRequestRef = useRef(0);
   const refreshModels = useCallback(async () => {
+    // The URL field refreshes on every keystroke, so requests to several
+    // servers can be in flight at once; only the latest one's answers count.
+    const request = ++modelRequestRef.current;
+    const isCurrent = () => request === modelRequestRef.current;
     setIsModelLoading(true);
     setConnectionError(null);
     try {
-      const models = await getModels(settings.ollamaUrl);
+      const models = await provider.listModels();
+      if (!isCurrent()) return;
       setAvailableModels(models);
       if (models.length > 0 && !models.some(m => m.name === settings.selectedModel)) {
         // If the preferred model (gemma2:2b) isn't found, default to the first available one.
         setSettings(s => ({ ...s, selectedModel: models[0].name }));
       }
+      // Details come one request per model, so they follow the list rather
+      // than hold it up; a model the server will not describe is left out.
+      const { describeModel } = provider;
+      if (describeModel) {
+        Promise.all(
+          models.map(m => describeModel(m.name).then(details => [m.name, details] as const, () => null))
+        ).then(entries => {
+          if (isCurrent()) setModelDetails(Object.fromEntries(entries.filter(e => e !== null)));
+        });
+      } else {
+        setModelDetails({});
+      }
     } catch (error) {
-      setConnectionError('Failed to connect to Ollama. Please check the URL and ensure Ollama is running.');
+      if (!isCurrent()) return;
+      setConnectionError('Failed to connect to the model server. Please check the URL and ensure the server is running.');
       setAvailableModels([]);
+      setModelDetails({});
       console.error(error);
     } finally {
-      setIsModelLoading(false);
+      if (isCurrent()) setIsModelLoading(false);
     }
-  }, [settings.ollamaUrl, settings.selectedModel]);
+  }, [provider, settings.selectedModel]);
 
   useEffect(() => {
     refreshModels();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [settings.ollamaUrl]);
+  }, [provider]);
 
   const value = {
     ...settings,
-    setOllamaUrl: (url: string) => setSettings(s => ({ ...s, ollamaUrl: url })),
+    setLlmProvider: (kind: LlmProviderKind) => setSettings(s => ({
+      ...s,
+      llmProvider: kind,
+      llmUrl: s.llmUrl === DEFAULT_SERVER_URLS[s.llmProvider] ? DEFAULT_SERVER_URLS[kind] : s.llmUrl,
+    })),
+    setLlmUrl: (url: string) => setSettings(s => ({ ...s, llmUrl: url })),
     setSelectedModel: (model: string) => setSettings(s => ({ ...s, selectedModel: model })),
     setSystemPrompt: (prompt: string) => setSettings(s => ({ ...s, systemPrompt: prompt })),
     setTemperature: (temp: number) => setSettings(s => ({...s, temperature: temp})),
-    setTriggerWord: (word: string) => setSettings(s => ({ ...s, triggerWord: word })),
+    setThink: (think: boolean) => setSettings(s => ({ ...s, think })),
+    setSampling: (sampling: Partial<SamplingOptions>) => setSettings(s => ({ ...s, sampling: { ...s.sampling, ...sampling } })),
+    setTriggerWord: (word: string) => setSettings(s => ({
+      ...s,
+      triggerWord: word,
+      triggerWordsByLanguage: { ...s.triggerWordsByLanguage, [s.language]: word },
+    })),
+    setWakeWordSensitivity: (sensitivity: number) => setSettings(s => ({ ...s, wakeWordSensitivity: sensitivity })),
+    setFollowUpSeconds: (seconds: number) => setSettings(s => ({ ...s, followUpSeconds: seconds })),
     setBackdropTheme: (theme: BackdropTheme) => setSettings(s => ({ ...s, backdropTheme: theme })),
+    setVoice: (voice: Partial<VoiceSettings>) => setSettings(s => ({ ...s, voice: { ...s.voice, ...voice } })),
+    // Switching language brings along that language's trigger word: the one
+    // set for it before, else the suggested one, else the current one.
+    setLanguage: (language: string) => setSettings(s => ({
+      ...s,
+      language,
+      triggerWord:
+        s.triggerWordsByLanguage[language] ?? findSpeechLanguage(language)?.triggerWord ?? s.triggerWord,
+    })),
+    setRespondInLanguage: (respond: boolean) => setSettings(s => ({ ...s, respondInLanguage: respond })),
+    setSttEngine: (engine: SttEngine) => setSettings(s => ({ ...s, sttEngine: engine })),
+    setWhisperUrl: (url: string) => setSettings(s => ({ ...s, whisperUrl: url })),
+    setVad: (vad: Partial<VadSettings>) => setSettings(s => ({ ...s, vad: { ...s.vad, ...vad } })),
+    setTtsEngine: (engine: TtsEngine) => setSettings(s => ({ ...s, ttsEngine: engine })),
+    setTtsUrl: (url: string) => setSettings(s => ({ ...s, ttsUrl: url })),
+    setCaptions: (mode: CaptionMode) => setSettings(s => ({ ...s, captions: mode })),
+    savePersona: (name: string, greeting: string) => setSettings(s => {
+      const existing = s.personas.find(p => p.name.toLowerCase() === name.trim().toLowerCase());
+      const persona = existing
+        ? { ...existing, greeting: greeting.trim(), ...personaSettingsFrom(s) }
+        : createPersona(name, greeting, s);
+      return {
+        ...s,
+        personas: existing ? s.personas.map(p => (p.id === existing.id ? persona : p)) : [...s.personas, persona],
+        activePersonaId: persona.id,
+      };
+    }),
+    switchPersona: (id: string) => setSettings(s => {
+      const persona = s.personas.find(p => p.id === id);
+      if (!persona) return s;
+      return {
+        ...s,
+        ...personaSettingsFrom(persona),
+        // The persona's wake word becomes the current language's, as if typed in.
+        triggerWordsByLanguage: { ...s.triggerWordsByLanguage, [s.language]: persona.triggerWord },
+        activePersonaId: id,
+      };
+    }),
+    deletePersona: (id: string) => setSettings(s => ({
+      ...s,
+      personas: s.personas.filter(p => p.id !== id),
+      activePersonaId: s.activePersonaId === id ? null : s.activePersonaId,
+    })),
+    exportSettings: () => serializeSettings(settings, true),
+    importSettings: (json: string) => {
+      const { settings: imported, problems } = parseSettingsJson(json);
+      setSettings(imported);
+      return problems;
+    },
+    resetSettings: () => setSettings(defaultSettings),
+    provider,
     availableModels,
+    modelDetails,
     refreshModels,
     isModelLoading,
     connectionError,
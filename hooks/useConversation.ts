@@ -0,0 +1,198 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ChatMessage, Conversation, MessageRole } from '../types';
+import {
+  createId,
+  saveConversation,
+  loadConversation,
+  getActiveConversationId,
+  setActiveConversationId,
+} from '../services/conversationStore';
+import { branchAt, dropVersion, switchVersion as showVersion } from '../services/messageBranches';
+
+// Streaming replies change the conversation once per token. Writing each of
+// those to IndexedDB would queue hundreds of transactions per reply, so saves
+// are batched; pagehide below flushes whatever is still pending.
+const SAVE_DELAY_MS = 500;
+const TITLE_LENGTH = 60;
+
+const createConversation = (model: string): Conversation => {
+  const now = Date.now();
+  return { id: createId(), title: '', createdAt: now, updatedAt: now, model, messages: [] };
+};
+
+const titleFrom = (text: string) =>
+  text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : text;
+
+/**
+ * The running conversation: its full message history, including the
+ * assistant's turns, restored from IndexedDB on load and saved back as it grows.
+ */
+export const useConversation = (model: string, persona = '') => {
+  const [conversation, setConversation] = useState<Conversation>(() => createConversation(model));
+
+  // Callers append a user turn and immediately send the resulting history, in
+  // the same tick; state alone would hand them the history from the last
+  // render. The ref is always current.
+  const conversationRef = useRef(conversation);
+  const modelRef = useRef(model);
+  modelRef.current = model;
+  const personaRef = useRef(persona);
+  personaRef.current = persona;
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const update = useCallback((change: (current: Conversation) => Conversation) => {
+    const next = change(conversationRef.current);
+    conversationRef.current = next;
+    setConversation(next);
+    return next;
+  }, []);
+
+  const flush = useCallback(() => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    const current = conversationRef.current;
+    // An untouched conversation is not worth a row in the history.
+    if (current.messages.length === 0) return;
+    setActiveConversationId(current.id);
+    saveConversation(current).catch((error) => console.error('Failed to save conversation', error));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const id = getActiveConversationId();
+    if (!id) return;
+    loadConversation(id)
+      .then((saved) => {
+        // Something typed before the load finished wins over the saved copy.
+        if (!cancelled && saved && conversationRef.current.messages.length === 0) update(() => saved);
+      })
+      .catch((error) => console.error('Failed to restore conversation', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [update]);
+
+  useEffect(() => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(flush, SAVE_DELAY_MS);
+  }, [conversation, flush]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [flush]);
+
+  /** Appends a turn and returns the whole history, ready to send to the model. */
+  const addMessage = useCallback((message: ChatMessage): ChatMessage[] => {
+    return update((current) => ({
+      ...current,
+      title: current.title || (message.role === MessageRole.USER ? titleFrom(message.content) : ''),
+      model: modelRef.current,
+      persona: personaRef.current || undefined,
+      updatedAt: Date.now(),
+      messages: [...current.messages, message],
+    })).messages;
+  }, [update]);
+
+  /** Applies a change to the newest turn, e.g. marking a reply as interrupted. */
+  const updateLastMessage = useCallback((change: (message: ChatMessage) => ChatMessage) => {
+    update((current) => {
+      const last = current.messages[current.messages.length - 1];
+      if (!last) return current;
+      return { ...current, updatedAt: Date.now(), messages: [...current.messages.slice(0, -1), change(last)] };
+    });
+  }, [update]);
+
+  /** Streams a chunk onto the newest turn, which is the assistant reply being generated. */
+  const appendToLastMessage = useCallback((chunk: string) => {
+    updateLastMessage((last) => ({ ...last, content: last.content + chunk }));
+  }, [updateLastMessage]);
+
+  /**
+   * Drops the newest turn, e.g. a reply that failed before producing anything
+   * worth keeping. A regenerated reply gives way to the version it replaced.
+   */
+  const removeLastMessage = useCallback(() => {
+    update((current) => ({
+      ...current,
+      updatedAt: Date.now(),
+      messages: current.messages.length > 0 ? dropVersion(current.messages, current.messages.length - 1) : [],
+    }));
+  }, [update]);
+
+  /**
+   * Replaces the turn at `index` and everything after it, keeping them as an
+   * alternate version. Returns the new history, ending with `replacement`.
+   */
+  const branchMessage = useCallback((index: number, replacement: ChatMessage): ChatMessage[] => {
+    return update((current) => ({
+      ...current,
+      model: modelRef.current,
+      updatedAt: Date.now(),
+      messages: branchAt(current.messages, index, replacement),
+    })).messages;
+  }, [update]);
+
+  /**
+   * Puts `replacement` in place of the newest reply, keeping the old one as an
+   * alternate version. Returns the history it answers, or [] when there is
+   * nothing to answer yet.
+   */
+  const replaceLastReply = useCallback((replacement: ChatMessage): ChatMessage[] => {
+    const messages = conversationRef.current.messages;
+    if (messages.length === 0) return [];
+    const last = messages.length - 1;
+    // A reply that failed outright was dropped, leaving the question last.
+    const next = messages[last].role === MessageRole.ASSISTANT ? branchMessage(last, replacement) : addMessage(replacement);
+    return next.slice(0, -1);
+  }, [addMessage, branchMessage]);
+
+  /** Shows another version of the turn at `index`, with the turns that followed it. Returns the new history. */
+  const switchVersion = useCallback((index: number, version: number): ChatMessage[] => {
+    return update((current) => ({
+      ...current,
+      updatedAt: Date.now(),
+      messages: showVersion(current.messages, index, version),
+    })).messages;
+  }, [update]);
+
+  /** Starts afresh. With `discard`, the current conversation is dropped unsaved, as when it was just deleted. */
+  const newConversation = useCallback((discard = false) => {
+    if (!discard) {
+      flush();
+    } else if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    setActiveConversationId(null);
+    update(() => createConversation(modelRef.current));
+  }, [flush, update]);
+
+  /** Switches to a saved conversation, saving the current one first. Resolves to null if it is gone. */
+  const openConversation = useCallback(async (id: string): Promise<Conversation | null> => {
+    flush();
+    const saved = await loadConversation(id);
+    if (!saved) return null;
+    setActiveConversationId(saved.id);
+    return update(() => saved);
+  }, [flush, update]);
+
+  return {
+    conversation,
+    messages: conversation.messages,
+    addMessage,
+    appendToLastMessage,
+    updateLastMessage,
+    removeLastMessage,
+    branchMessage,
+    replaceLastReply,
+    switchVersion,
+    newConversation,
+    openConversation,
+  };
+};
@@ -0,0 +1,77 @@
+import { useEffect, useReducer } from 'react';
+import type { SpeechState } from './useSpeech';
+
+/**
+ * Where a reply is, from sending the message to its last token. Speech has its
+ * own states in useSpeech; this covers the part speech cannot see, most of all
+ * the wait for the first token while a model loads.
+ */
+export type ReplyPhase = 'none' | 'thinking' | 'streaming' | 'error';
+
+export type ReplyEvent =
+  /** A message went out; nothing has come back yet. */
+  | 'send'
+  /** A chunk of the reply arrived. */
+  | 'token'
+  /** The stream finished. */
+  | 'done'
+  /** The stream failed. */
+  | 'fail'
+  /** The reply was abandoned (Stop, barge-in, a newer message). */
+  | 'cancel';
+
+/** Everything the assistant can be doing, as shown by the hologram. */
+export type AssistantState = SpeechState | 'thinking' | 'streaming' | 'error';
+
+// An error stays on show this long, then the assistant goes back to whatever
+// speech is doing.
+const ERROR_HOLD_MS = 4000;
+
+function replyTransition(phase: ReplyPhase, event: ReplyEvent | 'clear-error'): ReplyPhase {
+  switch (event) {
+    case 'send':
+      return 'thinking';
+    case 'token':
+      return phase === 'thinking' ? 'streaming' : phase;
+    case 'fail':
+      return phase === 'none' ? phase : 'error';
+    case 'done':
+    case 'cancel':
+      return phase === 'error' ? phase : 'none';
+    case 'clear-error':
+      return phase === 'error' ? 'none' : phase;
+  }
+}
+
+/**
+ * Combines a reply's phase with the speech state into one state. Listening and
+ * speaking win, since they are what the user is doing or hearing right now; a
+ * reply that is still streaming while its first sentences are read out shows
+ * as speaking. An error outranks speaking, though: the spoken apology is
+ * part of the error, and should not hide it behind the speaking animation.
+ */
+export function toAssistantState(speech: SpeechState, phase: ReplyPhase): AssistantState {
+  if (speech === 'listening') return speech;
+  if (phase === 'error') return phase;
+  if (speech === 'speaking') return speech;
+  if (phase !== 'none') return phase;
+  return speech;
+}
+
+/** The reply half of the assistant's state; combine it with speech through toAssistantState. */
+export const useReplyPhase = () => {
+  const [replyPhase, dispatch] = useReducer(replyTransition, 'none');
+
+  useEffect(() => {
+    if (replyPhase !== 'error') return;
+    const timer = setTimeout(() => dispatch('clear-error'), ERROR_HOLD_MS);
+    return () => clearTimeout(timer);
+  }, [replyPhase]);
+
+  return {
+    replyPhase,
+    /** True from sending a message until its stream ends, however it ends. */
+    isReplying: replyPhase === 'thinking' || replyPhase === 'streaming',
+    replyEvent: dispatch as (event: ReplyEvent) => void,
+  };
+};
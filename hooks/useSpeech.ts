@@ -1,60 +1,47 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { VoiceSettings, VadSettings } from '../types';
+import { VoiceActivityDetector, createVoiceActivityDetector } from '../services/vad';
+import { createEchoGuard } from '../services/echoGuard';
+import { findWakeWord, parseWakeWords } from '../services/wakeWord';
+import { SpeechSynthesizer, TtsEngine, createSynthesizer, createCaptionSynthesizer } from '../services/tts';
+import {
+  SpeechRecognizer,
+  RecognitionResult,
+  RecognitionErrorCode,
+  SttEngine,
+  createRecognizer,
+  isSttSupported,
+} from '../services/stt';
 
-// --- Type definitions for Web Speech API to fix TypeScript errors ---
-interface SpeechRecognitionResult {
-  readonly isFinal: boolean;
-  readonly [index: number]: { readonly transcript: string };
-}
-
-interface SpeechRecognitionResultList {
-  readonly length: number;
-  item(index: number): SpeechRecognitionResult;
-  [index: number]: SpeechRecognitionResult;
-}
-
-interface SpeechRecognitionEvent extends Event {
-  readonly resultIndex: number;
-  readonly results: SpeechRecognitionResultList;
-}
-
-interface SpeechRecognitionErrorEvent extends Event {
-  readonly error: string;
-}
-
-// Note: the spec exposes no way to query whether recognition is running, so the
-// hook tracks that itself in runningRef. An earlier version of this file
-// declared a `state` field here and branched on it; no browser implements it, so
-// every guard read `undefined`, never stopped the running session, and the next
-// start() threw InvalidStateError on repeat.
-interface SpeechRecognition extends EventTarget {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  onresult: ((event: SpeechRecognitionEvent) => void) | null;
-  onend: (() => void) | null;
-  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
-  start(): void;
-  stop(): void;
-  abort(): void;
-}
-
-type SpeechRecognitionConstructor = new () => SpeechRecognition;
+export type SpeechState = 'idle' | 'standby' | 'listening' | 'speaking';
 
-declare global {
-  interface Window {
-    SpeechRecognition: SpeechRecognitionConstructor;
-    webkitSpeechRecognition: SpeechRecognitionConstructor;
-  }
+interface QueuedSentence {
+  /** What the synthesizer says. */
+  text: string;
+  /** What the captions show while it does. */
+  caption: string;
 }
-// --- End of type definitions ---
-
-// Polyfill for browsers that use webkit prefix. Renamed to avoid shadowing the SpeechRecognition type.
-const SpeechRecognitionAPI = window.SpeechRecognition || window.webkitSpeechRecognition;
-
-export type SpeechState = 'idle' | 'standby' | 'listening' | 'speaking';
 
 interface UseSpeechProps {
+  /** One wake word or several, comma-separated. */
   triggerWord: string;
+  /** 0 to 1; see services/wakeWord.ts. */
+  wakeWordSensitivity: number;
+  voice: VoiceSettings;
+  /** BCP 47 tag for recognition and for picking a voice; '' leaves both to the browser. */
+  language: string;
+  /** Which recognizer listens; see services/stt.ts. */
+  sttEngine: SttEngine;
+  /** whisper.cpp server endpoint, used by the 'whisper' engine. */
+  whisperUrl: string;
+  /** When a listening turn ends; see services/vad.ts. */
+  vad: VadSettings;
+  /** Which synthesizer speaks; see services/tts.ts. */
+  ttsEngine: TtsEngine;
+  /** Piper/Coqui-style server endpoint, used by the 'http' engine. */
+  ttsUrl: string;
+  /** Replies are shown as captions at reading pace and not spoken at all. */
+  captionsOnly: boolean;
   onActivation: () => void;
   onTranscript: (transcript: string) => void;
 }
@@ -67,15 +54,49 @@ const SHORT_SESSION_MS = 1000;
 const MAX_SHORT_SESSIONS = 5;
 const START_RETRY_MS = 150;
 const START_RETRIES = 4;
-
-export const useSpeech = ({ triggerWord, onActivation, onTranscript }: UseSpeechProps) => {
+// After a wake word shows up in an interim result, how long to wait for the
+// rest of the sentence before switching to listening anyway.
+const WAKE_SETTLE_MS = 1200;
+// How often a follow-up window checks whether the user has started talking.
+const FOLLOW_UP_POLL_MS = 200;
+
+export const useSpeech = ({
+  triggerWord,
+  wakeWordSensitivity,
+  voice,
+  language,
+  sttEngine,
+  whisperUrl,
+  vad,
+  ttsEngine,
+  ttsUrl,
+  captionsOnly,
+  onActivation,
+  onTranscript,
+}: UseSpeechProps) => {
   const [speechState, setSpeechState] = useState<SpeechState>('idle');
   const [permissionError, setPermissionError] = useState<string | null>(null);
-
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
-  const sentenceQueueRef = useRef<string[]>([]);
-  const currentUtteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+  // When an open follow-up window closes (Date.now() time), for a countdown; null when none is open.
+  const [followUpEndsAt, setFollowUpEndsAt] = useState<number | null>(null);
+  // What the user has said so far in the current listening turn, interim words included.
+  const [interimTranscript, setInterimTranscript] = useState('');
+  // The caption for the sentence being spoken right now, or ''.
+  const [caption, setCaption] = useState('');
+
+  const recognitionRef = useRef<SpeechRecognizer | null>(null);
+  const sentenceQueueRef = useRef<QueuedSentence[]>([]);
+  const synthesizerRef = useRef<SpeechSynthesizer | null>(null);
   const wakeWordDetectedRef = useRef(false);
+  // Standby stays on while replies are spoken, so barge-in works; this keeps
+  // it from taking the assistant's own voice for the user's.
+  const [echoGuard] = useState(createEchoGuard);
+  const detectorRef = useRef<VoiceActivityDetector | null>(null);
+  // Bumped whenever recognition stops, so a detector that finishes opening the
+  // microphone after its turn is over knows to close again.
+  const listenSessionRef = useRef(0);
+  // Final results of the current listening turn. A continuous session can
+  // deliver several; they go out as one transcript when the turn ends.
+  const transcriptPartsRef = useRef<string[]>([]);
 
   // Mirrors of state that event handlers read. Recognition callbacks outlive the
   // render that installed them, so reading `speechState` there sees a stale
@@ -86,15 +107,27 @@ export const useSpeech = ({ triggerWord, onActivation, onTranscript }: UseSpeech
   const blockedRef = useRef(false);
   const speakingRef = useRef(false);
   const restartTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const wakeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const followUpTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const sessionStartRef = useRef(0);
   const shortSessionsRef = useRef(0);
 
   // Latest props, so the start/stop callbacks below can stay referentially
   // stable and not restart listening on every render of the consumer.
   const triggerWordRef = useRef(triggerWord);
+  const sensitivityRef = useRef(wakeWordSensitivity);
+  const voiceRef = useRef(voice);
+  const languageRef = useRef(language);
+  const vadRef = useRef(vad);
+  const sttEngineRef = useRef(sttEngine);
   const onActivationRef = useRef(onActivation);
   const onTranscriptRef = useRef(onTranscript);
   triggerWordRef.current = triggerWord;
+  sensitivityRef.current = wakeWordSensitivity;
+  voiceRef.current = voice;
+  languageRef.current = language;
+  vadRef.current = vad;
+  sttEngineRef.current = sttEngine;
   onActivationRef.current = onActivation;
   onTranscriptRef.current = onTranscript;
 
@@ -105,57 +138,95 @@ export const useSpeech = ({ triggerWord, onActivation, onTranscript }: UseSpeech
 
   // --- Speech Synthesis (TTS) ---
   const processSentenceQueue = useCallback(() => {
-    if (speakingRef.current) return;
-
-    const textToSpeak = sentenceQueueRef.current.shift();
-    if (!textToSpeak) {
-      if (stateRef.current === 'speaking') applyState('idle');
+    const synthesizer = synthesizerRef.current;
+    if (speakingRef.current || !synthesizer) return;
+
+    const sentence = sentenceQueueRef.current.shift();
+    if (!sentence) {
+      setCaption('');
+      // Recognition may have kept running underneath (standby during a typed
+      // message), so fall back to whatever it is doing rather than to idle.
+      if (stateRef.current === 'speaking') applyState(modeRef.current ?? 'idle');
       return;
     }
 
     speakingRef.current = true;
     applyState('speaking');
+    setCaption(sentence.caption);
+    echoGuard.spoke(sentence.text);
 
-    const utterance = new SpeechSynthesisUtterance(textToSpeak);
-    currentUtteranceRef.current = utterance;
-
-    const advance = () => {
+    const options = { voice: voiceRef.current, language: languageRef.current };
+    synthesizer.speak(sentence.text, options, () => {
       speakingRef.current = false;
-      currentUtteranceRef.current = null;
+      echoGuard.finished();
       processSentenceQueue();
-    };
-    utterance.onend = advance;
-    utterance.onerror = advance;
-
-    window.speechSynthesis.speak(utterance);
-  }, [applyState]);
-
-  const speak = useCallback((text: string) => {
-    const sentences = text.match(/[^.!?]+[.!?\n]*/g) || [text];
-    sentenceQueueRef.current.push(...sentences.filter((s) => s.trim().length > 0));
+    });
+    // Have the next sentence ready by the time this one ends.
+    const next = sentenceQueueRef.current[0];
+    if (next) synthesizer.prefetch?.(next.text, options);
+  }, [applyState, echoGuard]);
+
+  /**
+   * Queues `text` as one utterance. Streamed replies should go through
+   * services/speechSegmenter.ts first, so each call is a whole sentence.
+   * `caption` is what to show while it is spoken, when that differs from the
+   * words sent to the voice (Markdown, figures, links).
+   */
+  const speak = useCallback((text: string, caption = text) => {
+    if (!text.trim()) return;
+    sentenceQueueRef.current.push({ text, caption: caption.trim() });
+    if (speakingRef.current && sentenceQueueRef.current.length === 1) {
+      synthesizerRef.current?.prefetch?.(text, { voice: voiceRef.current, language: languageRef.current });
+    }
     processSentenceQueue();
   }, [processSentenceQueue]);
 
   const stopSpeaking = useCallback(() => {
     sentenceQueueRef.current = [];
-    if (currentUtteranceRef.current) {
-      currentUtteranceRef.current.onend = null;
-      currentUtteranceRef.current.onerror = null;
-      currentUtteranceRef.current = null;
-    }
     speakingRef.current = false;
-    if (window.speechSynthesis.speaking || window.speechSynthesis.pending) {
-      window.speechSynthesis.cancel();
+    synthesizerRef.current?.cancel();
+    echoGuard.finished();
+    setCaption('');
+  }, [echoGuard]);
+
+  /** Silences the assistant without touching recognition, so standby carries on. */
+  const cancelSpeech = useCallback(() => {
+    stopSpeaking();
+    if (stateRef.current === 'speaking') applyState(modeRef.current ?? 'idle');
+  }, [stopSpeaking, applyState]);
+
+  // --- Speech Recognition (STT) ---
+  const closeDetector = useCallback(() => {
+    listenSessionRef.current++;
+    detectorRef.current?.close();
+    detectorRef.current = null;
+  }, []);
+
+  const clearWakeTimer = useCallback(() => {
+    if (wakeTimerRef.current) {
+      clearTimeout(wakeTimerRef.current);
+      wakeTimerRef.current = null;
     }
   }, []);
 
-  // --- Speech Recognition (STT) ---
+  const closeFollowUp = useCallback(() => {
+    if (followUpTimerRef.current) {
+      clearInterval(followUpTimerRef.current);
+      followUpTimerRef.current = null;
+    }
+    setFollowUpEndsAt(null);
+  }, []);
+
   const stopCurrentRecognition = useCallback(() => {
     if (restartTimerRef.current) {
       clearTimeout(restartTimerRef.current);
       restartTimerRef.current = null;
     }
+    clearWakeTimer();
+    closeFollowUp();
+    setInterimTranscript('');
     modeRef.current = null;
+    closeDetector();
 
     const recognition = recognitionRef.current;
     if (!recognition) return;
@@ -174,7 +245,7 @@ export const useSpeech = ({ triggerWord, onActivation, onTranscript }: UseSpeech
       }
       runningRef.current = false;
     }
-  }, []);
+  }, [clearWakeTimer, closeFollowUp, closeDetector]);
 
   const stop = useCallback(() => {
     stopCurrentRecognition();
@@ -182,7 +253,7 @@ export const useSpeech = ({ triggerWord, onActivation, onTranscript }: UseSpeech
     applyState('idle');
   }, [stopCurrentRecognition, stopSpeaking, applyState]);
 
-  const safeStart = useCallback((recognition: SpeechRecognition, attempt = 0) => {
+  const safeStart = useCallback((recognition: SpeechRecognizer, attempt = 0) => {
     try {
       recognition.start();
       runningRef.current = true;
@@ -206,19 +277,22 @@ export const useSpeech = ({ triggerWord, onActivation, onTranscript }: UseSpeech
     }
   }, [applyState]);
 
-  const handleRecognitionError = useCallback((event: SpeechRecognitionErrorEvent) => {
+  const handleRecognitionError = useCallback((error: RecognitionErrorCode) => {
     // 'aborted' is what our own stopCurrentRecognition() raises, and 'no-speech'
     // is the normal end of a silent session. Neither is worth surfacing.
-    if (event.error === 'aborted' || event.error === 'no-speech') return;
+    if (error === 'aborted' || error === 'no-speech') return;
 
-    if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+    if (error === 'not-allowed' || error === 'service-not-allowed') {
       blockedRef.current = true;
       setPermissionError('Microphone permission denied. Please enable it in your browser settings.');
-    } else if (event.error === 'audio-capture') {
+    } else if (error === 'audio-capture') {
       blockedRef.current = true;
       setPermissionError('No microphone found. Connect one and try again.');
+    } else if (error === 'network') {
+      blockedRef.current = true;
+      setPermissionError('The speech recognition service could not be reached. Check its address in settings.');
     } else {
-      console.error('SpeechRecognition error:', event.error);
+      console.error('SpeechRecognition error:', error);
     }
 
     stopCurrentRecognition();
@@ -226,8 +300,8 @@ export const useSpeech = ({ triggerWord, onActivation, onTranscript }: UseSpeech
   }, [stopCurrentRecognition, applyState]);
 
   const startStandby = useCallback(() => {
-    if (blockedRef.current || !SpeechRecognitionAPI) return;
-    if (!recognitionRef.current || !triggerWordRef.current) return;
+    if (blockedRef.current) return;
+    if (!recognitionRef.current || parseWakeWords(triggerWordRef.current).length === 0) return;
     // Already listening for the trigger word; starting again would only throw.
     if (modeRef.current === 'standby' && runningRef.current) return;
 
@@ -241,18 +315,53 @@ export const useSpeech = ({ triggerWord, onActivation, onTranscript }: UseSpeech
     const recognition = recognitionRef.current;
     recognition.continuous = true;
     recognition.interimResults = true;
+    recognition.lang = languageRef.current;
+
+    const activate = () => {
+      clearWakeTimer();
+      wakeWordDetectedRef.current = true;
+      onActivationRef.current();
+    };
 
-    recognition.onresult = (event: SpeechRecognitionEvent) => {
-      const transcript = event.results[event.results.length - 1][0].transcript.toLowerCase().trim();
+    recognition.onresult = (result: RecognitionResult) => {
       shortSessionsRef.current = 0;
-      if (transcript.includes(triggerWordRef.current.toLowerCase()) && !wakeWordDetectedRef.current) {
-        wakeWordDetectedRef.current = true;
-        onActivationRef.current();
+      if (wakeWordDetectedRef.current) return;
+
+      const match = findWakeWord(result.transcript, parseWakeWords(triggerWordRef.current), sensitivityRef.current);
+      if (!match) {
+        // The recognizer revised away a wake word it thought it heard.
+        if (result.isFinal) clearWakeTimer();
+        return;
+      }
+      // Only what the assistant said lately counts as echo, so a user
+      // talking over it still gets through.
+      if (echoGuard.isEcho(result.transcript)) return;
+
+      // An interim result may still grow into "hey assistant, what time is
+      // it", so hold off until the sentence is final or the user pauses.
+      if (!result.isFinal) {
+        clearWakeTimer();
+        wakeTimerRef.current = setTimeout(activate, WAKE_SETTLE_MS);
+        return;
+      }
+
+      if (match.remainder) {
+        // The question came with the wake word; send it as is and stay in
+        // standby rather than opening a second listening turn.
+        clearWakeTimer();
+        onTranscriptRef.current(match.remainder);
+      } else {
+        activate();
       }
     };
 
     recognition.onend = () => {
       runningRef.current = false;
+      // Ended before the wake word's sentence was final; act on what was heard.
+      if (modeRef.current === 'standby' && wakeTimerRef.current) {
+        activate();
+        return;
+      }
       if (modeRef.current !== 'standby' || blockedRef.current || wakeWordDetectedRef.current) return;
 
       // A session that ends almost immediately means the engine is refusing to
@@ -276,37 +385,113 @@ export const useSpeech = ({ triggerWord, onActivation, onTranscript }: UseSpeech
     recognition.onerror = handleRecognitionError;
 
     safeStart(recognition);
-  }, [stopCurrentRecognition, applyState, safeStart, handleRecognitionError]);
-
-  const startListening = useCallback(() => {
-    if (blockedRef.current || !SpeechRecognitionAPI) return;
+  }, [stopCurrentRecognition, clearWakeTimer, applyState, safeStart, handleRecognitionError, echoGuard]);
+
+  /**
+   * Listens for one spoken turn. With `followUpMs`, the turn is a follow-up
+   * window: if the user has not started talking by then, it is abandoned and
+   * the assistant goes back to waiting for the wake word.
+   */
+  const startListening = useCallback((followUpMs = 0) => {
+    if (blockedRef.current) return;
     if (!recognitionRef.current) return;
 
     stopCurrentRecognition();
 
     modeRef.current = 'listening';
+    transcriptPartsRef.current = [];
     applyState('listening');
 
     const recognition = recognitionRef.current;
-    recognition.continuous = false;
-    recognition.interimResults = false;
-
-    recognition.onresult = (event: SpeechRecognitionEvent) => {
-      const finalTranscript = event.results[0][0].transcript.trim();
-      if (finalTranscript) onTranscriptRef.current(finalTranscript);
+    const vadSettings = vadRef.current;
+    // With the detector deciding when the turn ends, the recognizer must not
+    // end it early at the first pause. Whisper never does anyway: its
+    // continuous mode is standby's back-to-back windows, which would cut the
+    // question into separately transcribed pieces, so it records one clip and
+    // the detector's stop() ends it.
+    recognition.continuous = vadSettings.enabled && sttEngineRef.current !== 'whisper';
+    // Interim results drive the live caption, and in a follow-up window show
+    // that the user has started talking.
+    recognition.interimResults = true;
+    recognition.lang = languageRef.current;
+
+    let heardResult = false;
+    recognition.onresult = (result: RecognitionResult) => {
+      heardResult = true;
+      const part = result.transcript.trim();
+      if (!result.isFinal) {
+        setInterimTranscript([...transcriptPartsRef.current, part].join(' '));
+        return;
+      }
+      // Straight after a reply, the tail of it can still be coming out of
+      // the speakers.
+      if (part && !echoGuard.isEcho(part)) transcriptPartsRef.current.push(part);
+      setInterimTranscript(transcriptPartsRef.current.join(' '));
     };
 
     recognition.onend = () => {
       runningRef.current = false;
+      closeDetector();
+      closeFollowUp();
+      setInterimTranscript('');
       if (modeRef.current !== 'listening') return;
       modeRef.current = null;
+      const transcript = transcriptPartsRef.current.join(' ');
+      transcriptPartsRef.current = [];
       applyState('idle');
+      if (transcript) onTranscriptRef.current(transcript);
+      // Nothing said: wait for the wake word again rather than going deaf.
+      else startStandby();
     };
 
     recognition.onerror = handleRecognitionError;
 
     safeStart(recognition);
-  }, [stopCurrentRecognition, applyState, safeStart, handleRecognitionError]);
+
+    // stop() rather than abort(): whatever was said so far still comes through.
+    const session = listenSessionRef.current;
+    const isCurrent = () => listenSessionRef.current === session && modeRef.current === 'listening';
+    createVoiceActivityDetector(vadSettings, () => {
+      if (isCurrent()) recognition.stop();
+    })
+      .then((detector) => {
+        if (isCurrent()) detectorRef.current = detector;
+        else detector.close();
+      })
+      .catch((error) => {
+        console.warn('Voice activity detection unavailable:', error);
+        // Nothing else would end a continuous session, so end the turn here;
+        // if the microphone itself is the problem the recognizer reports it.
+        if (isCurrent() && vadSettings.enabled) recognition.stop();
+      });
+
+    if (followUpMs > 0) {
+      const endsAt = Date.now() + followUpMs;
+      setFollowUpEndsAt(endsAt);
+      followUpTimerRef.current = setInterval(() => {
+        // Once the user is talking, the turn runs its normal course.
+        if (heardResult || detectorRef.current?.heardSpeech()) {
+          closeFollowUp();
+        } else if (Date.now() >= endsAt) {
+          stopCurrentRecognition();
+          applyState('idle');
+          startStandby();
+        }
+      }, FOLLOW_UP_POLL_MS);
+    }
+  }, [
+    stopCurrentRecognition,
+    closeDetector,
+    closeFollowUp,
+    applyState,
+    safeStart,
+    handleRecognitionError,
+    startStandby,
+    echoGuard,
+  ]);
+
+  /** The microphone level (0 to 1) while listening, for a level meter; 0 otherwise. */
+  const micLevel = useCallback(() => detectorRef.current?.level() ?? 0, []);
 
   /** Lets the user retry after fixing permissions, instead of being stuck with the banner. */
   const dismissError = useCallback(() => {
@@ -315,36 +500,59 @@ export const useSpeech = ({ triggerWord, onActivation, onTranscript }: UseSpeech
     setPermissionError(null);
   }, []);
 
+  // A new engine (or a new whisper address) means a new recognizer. The old
+  // one is shut down first; the consumer restarts standby afterwards.
   useEffect(() => {
-    if (!SpeechRecognitionAPI) {
+    blockedRef.current = false;
+    setPermissionError(null);
+
+    if (!isSttSupported(sttEngine)) {
       blockedRef.current = true;
-      setPermissionError('Speech recognition is not supported in this browser.');
+      setPermissionError(
+        sttEngine === 'whisper'
+          ? 'This browser cannot record audio for the local speech server.'
+          : 'Speech recognition is not supported in this browser.'
+      );
       return;
     }
 
-    if (!recognitionRef.current) {
-      try {
-        recognitionRef.current = new SpeechRecognitionAPI();
-      } catch (e) {
-        blockedRef.current = true;
-        console.error('Error initializing SpeechRecognition:', e);
-        setPermissionError('Failed to initialize speech recognition.');
-      }
+    try {
+      recognitionRef.current = createRecognizer({ engine: sttEngine, whisperUrl });
+    } catch (e) {
+      blockedRef.current = true;
+      console.error('Error initializing SpeechRecognition:', e);
+      setPermissionError('Failed to initialize speech recognition.');
     }
 
     return () => {
       stopCurrentRecognition();
-      stopSpeaking();
+      recognitionRef.current = null;
+    };
+  }, [sttEngine, whisperUrl, stopCurrentRecognition]);
+
+  // Likewise for the synthesizer; whatever the old one was saying is dropped.
+  useEffect(() => {
+    const synthesizer = captionsOnly ? createCaptionSynthesizer() : createSynthesizer({ engine: ttsEngine, ttsUrl });
+    synthesizerRef.current = synthesizer;
+    return () => {
+      cancelSpeech();
+      synthesizerRef.current = null;
+      synthesizer.dispose();
     };
-  }, [stopCurrentRecognition, stopSpeaking]);
+  }, [ttsEngine, ttsUrl, captionsOnly, cancelSpeech]);
 
   return {
     speechState,
     permissionError,
+    followUpEndsAt,
+    interimTranscript,
+    caption,
     startStandby,
     startListening,
     speak,
+    cancelSpeech,
     stop,
     dismissError,
+    micLevel,
   };
 };
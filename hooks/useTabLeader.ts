@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+
+// One lock (or channel) for the whole origin: whichever tab holds it owns the
+// microphone and the speakers.
+const LOCK_NAME = 'ai-hologram-audio';
+
+// How often visible tabs announce themselves when electing over a
+// BroadcastChannel, and how many missed announcements mean a tab is gone
+// (closed or crashed without saying goodbye).
+const HEARTBEAT_MS = 1000;
+const MISSED_HEARTBEATS = 3;
+
+type SetLeader = (isLeader: boolean) => void;
+
+/** Visible tabs queue for a Web Lock; the browser hands it on when the holder is hidden or closed. */
+function leadByLock(setIsLeader: SetLeader): () => void {
+  let attempt: AbortController | null = null;
+  let release: (() => void) | null = null;
+
+  const claim = () => {
+    if (attempt) return;
+    const current = new AbortController();
+    attempt = current;
+    navigator.locks
+      .request(LOCK_NAME, { signal: current.signal }, () => {
+        setIsLeader(true);
+        // Held until resign() settles this promise.
+        return new Promise<void>((resolve) => {
+          release = resolve;
+        });
+      })
+      .catch(() => {
+        // Aborted while still waiting in line.
+      });
+  };
+
+  const resign = () => {
+    attempt?.abort();
+    attempt = null;
+    release?.();
+    release = null;
+    setIsLeader(false);
+  };
+
+  const handleVisibilityChange = () => (document.visibilityState === 'visible' ? claim() : resign());
+  handleVisibilityChange();
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  return () => {
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    resign();
+  };
+}
+
+type ElectionMessage =
+  | { type: 'hello'; id: string }
+  | { type: 'alive'; id: string; since: number }
+  | { type: 'bye'; id: string };
+
+/**
+ * The same election without Web Locks, which only exist in secure contexts: a
+ * kiosk served over plain http on the LAN has none. Visible tabs announce
+ * themselves on a BroadcastChannel with the time they became visible; the one
+ * visible longest leads, as the first in line for the lock would. A tab that
+ * just came to the front listens for one heartbeat before deciding, so it does
+ * not briefly lead alongside the current leader.
+ */
+function leadByBroadcast(setIsLeader: SetLeader): () => void {
+  const channel = new BroadcastChannel(LOCK_NAME);
+  const id = Math.random().toString(36).slice(2);
+  // Visible peers: when each became visible, and when it was last heard from.
+  const peers = new Map<string, { since: number; seenAt: number }>();
+  let since: number | null = null;
+  let settled = false;
+
+  const post = (message: ElectionMessage) => channel.postMessage(message);
+  const announce = () => since !== null && post({ type: 'alive', id, since });
+
+  // Earlier visibility wins; the id breaks ties so every tab agrees.
+  const outranks = (a: { since: number; id: string }, b: { since: number; id: string }) =>
+    a.since < b.since || (a.since === b.since && a.id < b.id);
+
+  const decide = () => {
+    const now = Date.now();
+    for (const [peerId, peer] of peers) {
+      if (now - peer.seenAt > HEARTBEAT_MS * MISSED_HEARTBEATS) peers.delete(peerId);
+    }
+    if (since === null || !settled) {
+      setIsLeader(false);
+      return;
+    }
+    const me = { since, id };
+    setIsLeader([...peers].every(([peerId, peer]) => outranks(me, { since: peer.since, id: peerId })));
+  };
+
+  channel.onmessage = ({ data }: MessageEvent<ElectionMessage>) => {
+    if (data.type === 'hello') announce();
+    else if (data.type === 'alive') peers.set(data.id, { since: data.since, seenAt: Date.now() });
+    else peers.delete(data.id);
+    decide();
+  };
+
+  let settleTimer: ReturnType<typeof setTimeout> | undefined;
+  const heartbeat = setInterval(() => {
+    announce();
+    decide();
+  }, HEARTBEAT_MS);
+
+  const claim = () => {
+    if (since !== null) return;
+    since = Date.now();
+    settled = false;
+    post({ type: 'hello', id });
+    announce();
+    settleTimer = setTimeout(() => {
+      settled = true;
+      decide();
+    }, HEARTBEAT_MS);
+  };
+
+  const resign = () => {
+    clearTimeout(settleTimer);
+    if (since !== null) post({ type: 'bye', id });
+    since = null;
+    setIsLeader(false);
+  };
+
+  const handleVisibilityChange = () => (document.visibilityState === 'visible' ? claim() : resign());
+  handleVisibilityChange();
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  // A closing tab hands over at once rather than after its heartbeats lapse.
+  window.addEventListener('pagehide', resign);
+  return () => {
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    window.removeEventListener('pagehide', resign);
+    clearInterval(heartbeat);
+    resign();
+    channel.close();
+  };
+}
+
+/**
+ * Whether this tab is the one that should listen and speak.
+ *
+ * Every open tab would otherwise run its own standby, so one wake word would
+ * start two recognizers and get two answers. Visible tabs queue for a Web
+ * Lock; the holder is the leader until it is hidden or closed, and the browser
+ * then hands the lock to the next tab in line. Hidden tabs leave the queue, so
+ * a kiosk brought back to the front takes over again. Where Web Locks are
+ * missing (pages served over plain http) the tabs elect a leader over a
+ * BroadcastChannel instead.
+ *
+ * With neither (very old browsers) every tab counts as the leader, as before.
+ */
+export const useTabLeader = (): boolean => {
+  const [isLeader, setIsLeader] = useState(() => !navigator.locks && typeof BroadcastChannel === 'undefined');
+
+  useEffect(() => {
+    if (navigator.locks) return leadByLock(setIsLeader);
+    if (typeof BroadcastChannel !== 'undefined') return leadByBroadcast(setIsLeader);
+  }, []);
+
+  return isLeader;
+};
@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+
+const synthesis = typeof window !== 'undefined' ? window.speechSynthesis : undefined;
+
+/**
+ * The voices speechSynthesis offers. Chrome returns an empty list until it has
+ * loaded them and then fires `voiceschanged`, so a one-off getVoices() on
+ * mount usually sees nothing.
+ */
+export const useVoices = (): SpeechSynthesisVoice[] => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => synthesis?.getVoices() ?? []);
+
+  useEffect(() => {
+    if (!synthesis) return;
+    const update = () => setVoices(synthesis.getVoices());
+    update();
+    synthesis.addEventListener('voiceschanged', update);
+    return () => synthesis.removeEventListener('voiceschanged', update);
+  }, []);
+
+  return voices;
+};
@@ -0,0 +1,50 @@
+/**
+ * How much of a model's context window a conversation takes up. Each model
+ * has its own tokenizer and the browser has none of them, so this estimates:
+ * close enough to warn before the oldest turns start falling out of the
+ * model's memory, not to count exactly.
+ */
+import { ChatMessage } from '../types';
+import type { ModelDetails } from './llmProvider';
+
+// English averages about four characters a token across the common tokenizers.
+const CHARS_PER_TOKEN = 4;
+
+// Vision models spend a roughly fixed number of tokens per picture, whatever its size.
+const TOKENS_PER_IMAGE = 768;
+
+// Chat templates wrap each turn in role markers of a few tokens.
+const TOKENS_PER_MESSAGE = 4;
+
+/** Past this share of the context window the conversation gets a warning. */
+export const CONTEXT_WARNING_RATIO = 0.8;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/** The estimated tokens the model reads for the next reply: the system prompt and every turn. */
+export function estimateConversationTokens(systemPrompt: string, messages: ChatMessage[]): number {
+  return messages.reduce(
+    (total, message) =>
+      total + TOKENS_PER_MESSAGE + estimateTokens(message.content) + (message.images?.length ?? 0) * TOKENS_PER_IMAGE,
+    TOKENS_PER_MESSAGE + estimateTokens(systemPrompt)
+  );
+}
+
+/**
+ * The tokens the model really sees: the context size asked for in Settings,
+ * else the server's default for it, never more than it was trained on.
+ * Undefined when neither is known.
+ */
+export function contextWindow(details: ModelDetails | undefined, requested?: number): number | undefined {
+  const allotted = requested || details?.defaultContext;
+  const trained = details?.contextLength;
+  return allotted && trained ? Math.min(allotted, trained) : allotted || trained;
+}
+
+/** The share of the window in use, from 0 up (past 1 means the start is already cut off); null when the window is unknown. */
+export function contextUsage(systemPrompt: string, messages: ChatMessage[], contextLength?: number): number | null {
+  if (!contextLength) return null;
+  return estimateConversationTokens(systemPrompt, messages) / contextLength;
+}
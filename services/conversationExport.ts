@@ -0,0 +1,169 @@
+/**
+ * Conversations in and out of the browser: Markdown for people to read, JSON
+ * for backups and for moving a day's history between kiosks.
+ */
+import { ChatMessage, Conversation, MessageRole } from '../types';
+import { createId } from './conversationStore';
+import { alternativeIndex, versionInfo } from './messageBranches';
+
+// Marks our export files, so an import can tell them from any other JSON.
+const EXPORT_FORMAT = 'ai-hologram-conversations';
+const EXPORT_VERSION = 1;
+
+const SPEAKERS: Record<MessageRole, string> = {
+  [MessageRole.USER]: 'User',
+  [MessageRole.ASSISTANT]: 'Assistant',
+  [MessageRole.SYSTEM]: 'System',
+};
+
+/**
+ * One path of turns, numbered from `firstTurn`, then every other version of
+ * its turns with the turns that followed it, a heading level further down.
+ */
+function pathToMarkdown(messages: ChatMessage[], depth: number, firstTurn: number): string[] {
+  const heading = '#'.repeat(Math.min(depth, 6));
+  const lines: string[] = [];
+  for (const message of messages) {
+    const { index, count } = versionInfo(message);
+    const version = count > 1 ? ` (version ${index + 1} of ${count})` : '';
+    lines.push(`${heading} ${SPEAKERS[message.role] ?? message.role}${version}`, '', message.content.trim());
+    if (message.interrupted) lines.push('', '_(interrupted)_');
+    lines.push('');
+  }
+  messages.forEach((message, turn) => {
+    const { count } = versionInfo(message);
+    message.alternatives?.forEach((path, i) => {
+      const number = alternativeIndex(message, i) + 1;
+      lines.push(`${heading} Message ${firstTurn + turn}, version ${number} of ${count}`, '');
+      lines.push(...pathToMarkdown(path, depth + 1, firstTurn + turn));
+    });
+  });
+  return lines;
+}
+
+export function conversationToMarkdown(conversation: Conversation): string {
+  const lines = [
+    `# ${conversation.title || 'Untitled conversation'}`,
+    '',
+    `- Started: ${new Date(conversation.createdAt).toLocaleString()}`,
+    `- Last message: ${new Date(conversation.updatedAt).toLocaleString()}`,
+    `- Model: ${conversation.model || 'unknown'}`,
+    ...(conversation.persona ? [`- Persona: ${conversation.persona}`] : []),
+    '',
+  ];
+  lines.push(...pathToMarkdown(conversation.messages, 2, 1));
+  return lines.join('\n');
+}
+
+export function conversationsToMarkdown(conversations: Conversation[]): string {
+  return conversations.map(conversationToMarkdown).join('\n---\n\n');
+}
+
+export function conversationsToJson(conversations: Conversation[]): string {
+  return JSON.stringify(
+    { format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: new Date().toISOString(), conversations },
+    null,
+    2
+  );
+}
+
+/** Attached pictures are stored inline as data: URLs; anything else is dropped. */
+function isImageList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 && value.every((url) => typeof url === 'string' && url.startsWith('data:image/'));
+}
+
+function toMessage(value: unknown): ChatMessage | null {
+  const message = value as Partial<ChatMessage> | null;
+  if (!message || typeof message.content !== 'string') return null;
+  if (!Object.values(MessageRole).includes(message.role as MessageRole)) return null;
+  // Alternate versions are whole paths of turns, checked the same way.
+  const alternatives = Array.isArray(message.alternatives)
+    ? message.alternatives.map((path) => (Array.isArray(path) && path.length > 0 ? toMessages(path) : null))
+    : [];
+  if (alternatives.some((path) => !path)) return null;
+  return {
+    role: message.role as MessageRole,
+    content: message.content,
+    ...(message.interrupted ? { interrupted: true } : {}),
+    ...(isImageList(message.images) ? { images: message.images } : {}),
+    ...(typeof message.model === 'string' && message.model ? { model: message.model } : {}),
+    ...(alternatives.length > 0
+      ? { alternatives: alternatives as ChatMessage[][], version: typeof message.version === 'number' ? message.version : 0 }
+      : {}),
+  };
+}
+
+function toMessages(values: unknown[]): ChatMessage[] | null {
+  const messages = values.map(toMessage);
+  return messages.some((message) => !message) ? null : (messages as ChatMessage[]);
+}
+
+function toConversation(value: unknown): Conversation | null {
+  const raw = value as Partial<Conversation> | null;
+  if (!raw || !Array.isArray(raw.messages)) return null;
+  const messages = toMessages(raw.messages);
+  if (!messages) return null;
+  const now = Date.now();
+  const createdAt = typeof raw.createdAt === 'number' ? raw.createdAt : now;
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createId(),
+    title: typeof raw.title === 'string' ? raw.title : '',
+    createdAt,
+    updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : createdAt,
+    model: typeof raw.model === 'string' ? raw.model : '',
+    ...(typeof raw.persona === 'string' && raw.persona ? { persona: raw.persona } : {}),
+    messages,
+  };
+}
+
+/**
+ * Reads conversations back from an export. Also takes a bare conversation or
+ * a bare array of them, as hand-edited files tend to be. Throws with a
+ * message fit to show the user when the file is not usable.
+ */
+export function parseConversationsJson(text: string): Conversation[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const wrapper = data as { format?: unknown; version?: unknown; conversations?: unknown };
+  if (wrapper && wrapper.format === EXPORT_FORMAT && typeof wrapper.version === 'number' && wrapper.version > EXPORT_VERSION) {
+    throw new Error('The file was exported by a newer version of this app.');
+  }
+  const list = Array.isArray(data) ? data : Array.isArray(wrapper?.conversations) ? wrapper.conversations : [data];
+
+  const conversations = list.map(toConversation);
+  const invalid = conversations.filter((conversation) => !conversation).length;
+  if (invalid > 0) {
+    throw new Error(
+      `${invalid} of ${list.length} ${list.length === 1 ? 'entry is not a conversation' : 'entries are not conversations'}.`
+    );
+  }
+  return conversations as Conversation[];
+}
+
+/** A file name made from the conversation's date and title, safe on every OS. */
+export function exportFileName(conversation: Conversation | null, extension: 'md' | 'json'): string {
+  if (!conversation) return `conversations-${new Date().toISOString().slice(0, 10)}.${extension}`;
+  const date = new Date(conversation.createdAt).toISOString().slice(0, 10);
+  const slug = conversation.title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+  return `conversation-${date}${slug ? `-${slug}` : ''}.${extension}`;
+}
+
+/** Hands `content` to the browser as a file download. */
+export function downloadFile(fileName: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking straight away cancels the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,129 @@
+/**
+ * Persists conversations in IndexedDB so a page reload does not wipe a running
+ * session. localStorage would be simpler, but a day of kiosk traffic outgrows
+ * its ~5 MB quota, and every write there blocks the main thread.
+ */
+import { Conversation } from '../types';
+
+const DB_NAME = 'ai-hologram';
+const DB_VERSION = 1;
+const STORE = 'conversations';
+
+// Which conversation was open last. A single id, read once at startup, so it
+// lives next to the settings rather than in the database.
+const ACTIVE_KEY = 'ai-chat-active-conversation';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open (private mode in some browsers) should not poison every
+    // later call; let the next one try again.
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/** Runs one request against the conversations store and resolves with its result. */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** A short, unique id. crypto.randomUUID is only available in secure contexts, and a kiosk on a LAN address is not one. */
+export function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export async function saveConversation(conversation: Conversation): Promise<void> {
+  await withStore('readwrite', (store) => store.put(conversation));
+}
+
+export interface ImportResult {
+  added: number;
+  /** Already in the store, unchanged. */
+  skipped: number;
+  /** Their id was taken by a different conversation, so they were added under a new one. */
+  copied: number;
+}
+
+/**
+ * Adds imported conversations in one transaction; any failure saves none.
+ * Nothing already stored is written over: that could be the conversation open
+ * right now, whose copy in memory would be saved back over the import anyway.
+ * A conversation already here as it is is skipped, and one that has moved on
+ * since, on either side, is kept alongside the stored one as a copy.
+ */
+export async function importConversations(conversations: Conversation[]): Promise<ImportResult> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const result: ImportResult = { added: 0, skipped: 0, copied: 0 };
+    const transaction = db.transaction(STORE, 'readwrite');
+    const store = transaction.objectStore(STORE);
+    // One at a time, so an id that appears twice in the file sees the first
+    // one's write.
+    const importFrom = (index: number) => {
+      const conversation = conversations[index];
+      if (!conversation) return;
+      const request = store.get(conversation.id);
+      request.onsuccess = () => {
+        const existing = request.result as Conversation | undefined;
+        if (!existing) {
+          store.add(conversation);
+          result.added++;
+        } else if (existing.updatedAt === conversation.updatedAt) {
+          result.skipped++;
+        } else {
+          store.add({ ...conversation, id: createId() });
+          result.copied++;
+        }
+        importFrom(index + 1);
+      };
+    };
+    importFrom(0);
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function loadConversation(id: string): Promise<Conversation | undefined> {
+  return withStore<Conversation | undefined>('readonly', (store) => store.get(id));
+}
+
+/** Every saved conversation, most recently updated first. */
+export async function listConversations(): Promise<Conversation[]> {
+  const all = await withStore<Conversation[]>('readonly', (store) => store.getAll());
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+export function getActiveConversationId(): string | null {
+  return localStorage.getItem(ACTIVE_KEY);
+}
+
+export function setActiveConversationId(id: string | null): void {
+  if (id) localStorage.setItem(ACTIVE_KEY, id);
+  else localStorage.removeItem(ACTIVE_KEY);
+}
@@ -0,0 +1,88 @@
+/**
+ * Recognizes the assistant's own voice coming back through the microphone.
+ *
+ * Standby keeps listening while a reply is spoken, so that the user can barge
+ * in. Web Speech recognition gives no say over its audio path, so the speakers
+ * reach it unfiltered (the custom paths in services/microphone.ts at least ask
+ * for echoCancellation), and a reply that mentions the trigger word, or is
+ * simply loud, would wake the assistant. The guard remembers what was said
+ * lately and flags a transcript made up of those same words.
+ *
+ * The comparison works on word pairs rather than single words: the user's own
+ * speech mixed into the transcript brings pairs the reply never had, so
+ * "Jarvis, stop" over a reply about Jarvis still gets through. The trade-off is
+ * a lone trigger word said while the reply says it too, which reads as echo.
+ */
+
+// Recognizers deliver results well after the sound, and speakers lag too, so
+// a sentence stays a suspect for a while after it finished.
+const ECHO_TAIL_MS = 2500;
+// Share of a transcript's word pairs that must come from recent speech for it
+// to be treated as echo. Recognition mishears the odd word even in echo.
+const ECHO_OVERLAP = 0.6;
+
+interface SpokenSentence {
+  words: string[];
+  /** null while it is still being spoken. */
+  endedAt: number | null;
+}
+
+export interface EchoGuard {
+  /** Records a sentence as it starts playing. */
+  spoke(text: string): void;
+  /** Marks the sentence being spoken as finished (or cancelled). */
+  finished(): void;
+  /** Whether `transcript` is most likely the assistant hearing itself. */
+  isEcho(transcript: string): boolean;
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}']+/u)
+    .filter(Boolean);
+}
+
+function pairs(list: string[]): string[] {
+  if (list.length < 2) return list;
+  return list.slice(1).map((word, i) => `${list[i]} ${word}`);
+}
+
+export function createEchoGuard(): EchoGuard {
+  let sentences: SpokenSentence[] = [];
+
+  const recent = (): SpokenSentence[] => {
+    const now = Date.now();
+    sentences = sentences.filter((s) => s.endedAt === null || now - s.endedAt < ECHO_TAIL_MS);
+    return sentences;
+  };
+
+  return {
+    spoke(text) {
+      const now = Date.now();
+      sentences.forEach((s) => (s.endedAt ??= now));
+      sentences.push({ words: words(text), endedAt: null });
+    },
+
+    finished() {
+      const now = Date.now();
+      sentences.forEach((s) => (s.endedAt ??= now));
+    },
+
+    isEcho(transcript) {
+      const spoken = recent();
+      if (spoken.length === 0) return false;
+      const heard = pairs(words(transcript));
+      if (heard.length === 0) return false;
+
+      // Pairs across sentence boundaries count too: recognizers run sentences
+      // together. Single words are in the set for one-word transcripts.
+      const spokenWords = spoken.flatMap((s) => s.words);
+      const known = new Set([...spokenWords, ...pairs(spokenWords)]);
+      const matched = heard.filter((pair) => known.has(pair)).length;
+      return matched / heard.length >= ECHO_OVERLAP;
+    },
+  };
+}
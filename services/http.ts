@@ -0,0 +1,93 @@
+/**
+ * fetch with the timeouts, retries and cancellation that every model server
+ * call needs. Shared by the LLM providers; see services/llmProvider.ts.
+ */
+
+/** True for the rejection fetch and stream reads produce once their AbortSignal fires. */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/** Waits between retries, but gives up at once if the caller cancels. */
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const id = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(id);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * A wrapper around fetch that includes a timeout.
+ * @param resource The URL to fetch.
+ * @param options Fetch options, including an optional `timeout` in milliseconds.
+ *   A `signal` cancels the request for real: it is never retried, and it keeps
+ *   working after the response arrives, so it also stops a body being streamed.
+ */
+export async function fetchWithTimeout(
+  resource: RequestInfo,
+  options: RequestInit & { timeout?: number; retries?: number } = {}
+): Promise<Response> {
+  const { timeout = 15000, retries = 3, signal } = options;
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt < retries; attempt++) {
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+
+    const controller = new AbortController();
+    const id = setTimeout(() => controller.abort(), timeout);
+    // Left attached once the response arrives, so the caller can still cut off
+    // a streaming body; { once } releases it after it fires.
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    try {
+      const response = await fetch(resource, {
+        ...options,
+        signal: controller.signal,
+      });
+      clearTimeout(id);
+
+      // Check for network errors
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`HTTP error! status: ${response.status} - ${errorText}`);
+      }
+
+      return response;
+    } catch (error) {
+      clearTimeout(id);
+      signal?.removeEventListener('abort', forwardAbort);
+      // A cancellation is the caller's decision, not a flaky network; retrying
+      // it would resurrect the request they just stopped.
+      if (signal?.aborted) throw error;
+      lastError = error as Error;
+      
+      // Log more specific error information
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(
+        `Attempt ${attempt + 1}/${retries} failed:`,
+        errorMessage,
+        resource.toString()
+      );
+
+      if (attempt < retries - 1) {
+        // Enhanced exponential backoff with jitter
+        const baseDelay = Math.pow(2, attempt) * 1000;
+        const jitter = Math.random() * 1000;
+        await delay(baseDelay + jitter, signal);
+      }
+    }
+  }
+
+  // Throw a more descriptive error
+  const errorMessage = lastError instanceof Error ? lastError.message : 'Unknown error';
+  throw new Error(`Failed after ${retries} attempts: ${errorMessage}`);
+}
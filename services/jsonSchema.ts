@@ -0,0 +1,194 @@
+/**
+ * JSON Schema for structured model output: a builder that keeps the schema
+ * and the TypeScript type of the data it describes in step, and a validator
+ * for what the model sent back.
+ *
+ * Only the keywords models can actually be held to are covered: Ollama turns
+ * the schema into a grammar, and anything beyond types, properties, items,
+ * enums and simple bounds is not enforced there, so it would only ever be
+ * checked after the fact. Import as a namespace:
+ *
+ *   import * as schema from './jsonSchema';
+ *   const Button = schema.object({ name: schema.string(), category: schema.enumOf(['Input', 'Action']) });
+ *   type Button = schema.Infer<typeof Button>;
+ */
+
+export type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** false rejects properties not listed; a schema checks them against it. Allowed when absent. */
+  additionalProperties?: boolean | JsonSchema;
+  // Arrays
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * A schema that also carries the type of the data it describes. The type
+ * exists only for the compiler; the object is plain JSON Schema.
+ */
+export type Schema<T> = JsonSchema & { readonly __type?: T };
+
+/** The data type a builder schema describes. */
+export type Infer<S> = S extends Schema<infer T> ? T : unknown;
+
+export interface SchemaViolation {
+  /** Where in the data, e.g. "items[2].name"; "" for the whole value. */
+  path: string;
+  message: string;
+}
+
+// --- Builder ---
+
+type StringBounds = Pick<JsonSchema, 'description' | 'minLength' | 'maxLength' | 'pattern'>;
+type NumberBounds = Pick<JsonSchema, 'description' | 'minimum' | 'maximum'>;
+type ArrayBounds = Pick<JsonSchema, 'description' | 'minItems' | 'maxItems'>;
+
+export const string = (options: StringBounds = {}): Schema<string> => ({ type: 'string', ...options });
+
+export const number = (options: NumberBounds = {}): Schema<number> => ({ type: 'number', ...options });
+
+export const integer = (options: NumberBounds = {}): Schema<number> => ({ type: 'integer', ...options });
+
+export const boolean = (options: Pick<JsonSchema, 'description'> = {}): Schema<boolean> => ({ type: 'boolean', ...options });
+
+/** One of a fixed set of strings. */
+export const enumOf = <const T extends string>(values: readonly T[], options: Pick<JsonSchema, 'description'> = {}): Schema<T> => ({
+  type: 'string',
+  enum: [...values],
+  ...options,
+});
+
+export const array = <T>(items: Schema<T>, options: ArrayBounds = {}): Schema<T[]> => ({ type: 'array', items, ...options });
+
+/** The value, or null where the model has nothing to put. */
+export const nullable = <T>(inner: Schema<T>): Schema<T | null> => ({ anyOf: [inner, { type: 'null' }] });
+
+type ObjectOf<P extends Record<string, Schema<unknown>>, O extends keyof P> = {
+  [K in Exclude<keyof P, O>]: Infer<P[K]>;
+} & {
+  [K in O]?: Infer<P[K]>;
+};
+
+/**
+ * An object with exactly these properties, all required unless listed in
+ * `optional`. Extra properties are rejected, which also keeps models from
+ * padding the answer with fields nobody asked for.
+ */
+export const object = <P extends Record<string, Schema<unknown>>, O extends keyof P & string = never>(
+  properties: P,
+  options: Pick<JsonSchema, 'description'> & { optional?: readonly O[] } = {}
+): Schema<ObjectOf<P, O>> => {
+  const { optional = [], ...rest } = options;
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(properties).filter((key) => !optional.includes(key as O)),
+    additionalProperties: false,
+    ...rest,
+  };
+};
+
+// --- Validation ---
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonType;
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  const actual = typeOf(value);
+  // Every integer is also a number.
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+const describe = (value: unknown) => JSON.stringify(value) ?? String(value);
+
+const child = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+function check(value: unknown, schema: JsonSchema, path: string, violations: SchemaViolation[]): void {
+  const fail = (message: string) => violations.push({ path, message });
+
+  if (schema.anyOf) {
+    const matched = schema.anyOf.some((option) => validateJson(value, option).length === 0);
+    if (!matched) fail(`does not match any of the allowed forms; got ${describe(value)}`);
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      fail(`expected ${types.join(' or ')}, got ${typeOf(value) === 'integer' ? 'number' : typeOf(value)}`);
+      // Nothing further can be said about a value of the wrong type.
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && describe(value) !== describe(schema.const)) {
+    fail(`must be ${describe(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some((option) => describe(option) === describe(value))) {
+    fail(`must be one of ${schema.enum.map(describe).join(', ')}; got ${describe(value)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) fail(`must be at least ${schema.minLength} characters long`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) fail(`must be at most ${schema.maxLength} characters long`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) fail(`must match the pattern ${schema.pattern}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) fail(`must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) fail(`must be at most ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) fail(`must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) fail(`must have at most ${schema.maxItems} items`);
+    if (schema.items) value.forEach((item, i) => check(item, schema.items!, child(path, i), violations));
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      // Own properties only: "constructor" and the like are on every parsed object's prototype.
+      if (!Object.hasOwn(record, key)) violations.push({ path: child(path, key), message: 'is required but missing' });
+    }
+    for (const [key, item] of Object.entries(record)) {
+      if (Object.hasOwn(properties, key)) check(item, properties[key], child(path, key), violations);
+      else if (schema.additionalProperties === false) violations.push({ path: child(path, key), message: 'is not allowed here' });
+      else if (typeof schema.additionalProperties === 'object') check(item, schema.additionalProperties, child(path, key), violations);
+    }
+  }
+}
+
+/** Every way `value` breaks `schema`; empty when it conforms. */
+export function validateJson(value: unknown, schema: JsonSchema): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  check(value, schema, '', violations);
+  return violations;
+}
+
+/** A violation as one line, e.g. "items[2].name: is required but missing". */
+export function formatViolation({ path, message }: SchemaViolation): string {
+  return path ? `${path}: ${message}` : message;
+}
@@ -0,0 +1,116 @@
+/**
+ * What the app needs from a model server, whichever one it is. Ollama has its
+ * own API (services/ollama.ts); llama.cpp server, LM Studio and most others
+ * speak OpenAI's (services/openaiCompatible.ts). Components get a provider
+ * from SettingsContext and never see which one.
+ */
+import { ChatMessage, LlmModel, LlmProviderKind, SamplingOptions } from '../types';
+import type { JsonSchema } from './jsonSchema';
+import { createOllamaProvider } from './ollama';
+import { createOpenAiCompatibleProvider } from './openaiCompatible';
+
+export interface ChatStreamRequest {
+  model: string;
+  /** The conversation so far, oldest first, without the system prompt. */
+  messages: ChatMessage[];
+  systemPrompt: string;
+  temperature: number;
+  /** Everything else about sampling; servers that do not know an option skip it. */
+  sampling?: SamplingOptions;
+  /**
+   * For models with the 'thinking' capability: whether to reason before
+   * answering. Left out for other models, which reject the option.
+   */
+  think?: boolean;
+  onChunk: (chunk: string) => void;
+  /** Called once the stream ends, whether it finished, failed or was aborted. */
+  onClose: () => void;
+  onError: (error: Error) => void;
+  /** Ends the stream early; that is reported through `onClose` alone, since a cancelled reply is not an error. */
+  signal?: AbortSignal;
+}
+
+export interface GenerateRequest {
+  model: string;
+  prompt: string;
+  temperature: number;
+  sampling?: SamplingOptions;
+  /** Ask the server to hold the model to JSON output, where it can. */
+  json?: boolean;
+  /** Hold the output to this JSON Schema, where the server can; implies `json`. */
+  schema?: JsonSchema;
+  /** Cancels the request, including any retries still pending. */
+  signal?: AbortSignal;
+}
+
+export interface PullProgress {
+  /** The server's own words for the step, e.g. "pulling manifest" or "verifying sha256 digest". */
+  status: string;
+  /** Bytes of the current layer, while one is downloading. */
+  completed?: number;
+  total?: number;
+}
+
+/** What a model can do beyond plain chat. */
+export type ModelCapability = 'vision' | 'tools' | 'thinking';
+
+export interface ModelDetails {
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+  /** The most tokens the model was trained to attend to. */
+  contextLength?: number;
+  /**
+   * The context the server gives the model when a request asks for none,
+   * which is often far below `contextLength`; older turns past it are
+   * silently dropped.
+   */
+  defaultContext?: number;
+  capabilities: ModelCapability[];
+}
+
+export interface LoadedModel {
+  name: string;
+  /** Bytes held in memory, and how much of that is on the GPU. */
+  size: number;
+  sizeVram: number;
+  /** When the server will unload it if left idle. */
+  expiresAt?: string;
+}
+
+/** Downloading and removing models on the server itself. Only Ollama offers this. */
+export interface ModelManager {
+  /** Downloads a model, reporting progress as it goes. Rejects if the server reports an error. */
+  pull(name: string, onProgress: (progress: PullProgress) => void, signal?: AbortSignal): Promise<void>;
+  remove(name: string): Promise<void>;
+  /** The models loaded in memory right now. */
+  listLoaded(): Promise<LoadedModel[]>;
+}
+
+export interface LlmProvider {
+  kind: LlmProviderKind;
+  /** Present when the server lets the app manage its models. */
+  models?: ModelManager;
+  /** The models the server offers. Rejects when the server cannot be reached. */
+  listModels(signal?: AbortSignal): Promise<LlmModel[]>;
+  /**
+   * What the server knows about a model. Absent where the API cannot say,
+   * in which case the app assumes no capabilities and an unknown context.
+   */
+  describeModel?(name: string, signal?: AbortSignal): Promise<ModelDetails>;
+  /** Streams a chat reply. Never rejects; errors go to `onError`. */
+  chatStream(request: ChatStreamRequest): Promise<void>;
+  /** A one-off completion of a single prompt, returned whole. */
+  generate(request: GenerateRequest): Promise<string>;
+}
+
+/** Where each kind of server listens out of the box. */
+export const DEFAULT_SERVER_URLS: Record<LlmProviderKind, string> = {
+  ollama: 'http://localhost:11434',
+  openai: 'http://localhost:8080',
+};
+
+export function createProvider(kind: LlmProviderKind, baseUrl: string): LlmProvider {
+  const url = baseUrl.trim().replace(/\/+$/, '');
+  return kind === 'openai' ? createOpenAiCompatibleProvider(url) : createOllamaProvider(url);
+}
@@ -0,0 +1,86 @@
+/**
+ * Alternate versions of a conversation, kept as a tree.
+ *
+ * A conversation's `messages` is always the path on screen, so everything that
+ * only reads it (the model, the JSON export) still sees a plain list.
+ * Regenerating a reply or editing a question does not throw away what it
+ * replaces: the old turn and every turn after it are tucked into the new
+ * turn's `alternatives`, and `switchVersion` brings them back. A tucked-away
+ * path keeps the alternatives of its own later turns, so branches of branches
+ * survive too. Search and the Markdown export look through every version
+ * (everyMessage).
+ */
+import { ChatMessage } from '../types';
+
+export interface VersionInfo {
+  /** The version on screen, counting from 0. */
+  index: number;
+  count: number;
+}
+
+export function versionInfo(message: ChatMessage): VersionInfo {
+  const count = (message.alternatives?.length ?? 0) + 1;
+  return { index: Math.min(message.version ?? 0, count - 1), count };
+}
+
+/** Every turn of `messages` and of all their other versions, however deeply branched. */
+export function everyMessage(messages: ChatMessage[]): ChatMessage[] {
+  return messages.flatMap((message) => [message, ...(message.alternatives ?? []).flatMap(everyMessage)]);
+}
+
+/** The place, counting from 0, of the `i`th of a turn's `alternatives` among all its versions. */
+export function alternativeIndex(message: ChatMessage, i: number): number {
+  return i < versionInfo(message).index ? i : i + 1;
+}
+
+function withoutVersions(message: ChatMessage): ChatMessage {
+  const { alternatives, version, ...rest } = message;
+  return rest;
+}
+
+/** Every version of the turn at `index`, each followed by its later turns, in order. */
+function allVersions(messages: ChatMessage[], index: number): ChatMessage[][] {
+  const versions = [...(messages[index].alternatives ?? [])];
+  versions.splice(versionInfo(messages[index]).index, 0, [
+    withoutVersions(messages[index]),
+    ...messages.slice(index + 1),
+  ]);
+  return versions;
+}
+
+/** Puts version `chosen` on screen after `before`, with the rest stored on its first turn. */
+function showVersion(before: ChatMessage[], versions: ChatMessage[][], chosen: number): ChatMessage[] {
+  const [first, ...after] = versions[chosen];
+  const alternatives = versions.filter((_, i) => i !== chosen);
+  const head = alternatives.length > 0 ? { ...first, alternatives, version: chosen } : first;
+  return [...before, head, ...after];
+}
+
+/**
+ * Replaces the turn at `index`, and everything after it, with `replacement`,
+ * keeping the old path as an earlier version. The new version is the last.
+ */
+export function branchAt(messages: ChatMessage[], index: number, replacement: ChatMessage): ChatMessage[] {
+  const versions = allVersions(messages, index);
+  versions.push([replacement]);
+  return showVersion(messages.slice(0, index), versions, versions.length - 1);
+}
+
+export function switchVersion(messages: ChatMessage[], index: number, version: number): ChatMessage[] {
+  const versions = allVersions(messages, index);
+  if (version < 0 || version >= versions.length) return messages;
+  return showVersion(messages.slice(0, index), versions, version);
+}
+
+/**
+ * Removes the version on screen at `index`, with everything after it. The one
+ * before it takes its place (the next one, if it was the first); with no other
+ * version the turn is simply gone.
+ */
+export function dropVersion(messages: ChatMessage[], index: number): ChatMessage[] {
+  const versions = allVersions(messages, index);
+  const current = versionInfo(messages[index]).index;
+  versions.splice(current, 1);
+  if (versions.length === 0) return messages.slice(0, index);
+  return showVersion(messages.slice(0, index), versions, Math.max(0, current - 1));
+}
@@ -0,0 +1,53 @@
+/**
+ * Direct microphone access, for the parts of the speech pipeline that record
+ * audio themselves rather than leaving it to the Web Speech API.
+ */
+import type { RecognitionErrorCode } from './stt';
+
+/**
+ * Echo cancellation matters most here: the assistant's own voice coming out
+ * of the speakers must not be heard as the user.
+ */
+export const MIC_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+export function openMicrophone(): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({ audio: MIC_CONSTRAINTS });
+}
+
+/** Maps a getUserMedia failure onto the recognition error codes useSpeech already reports. */
+export function microphoneErrorCode(error: unknown): RecognitionErrorCode {
+  const name = (error as DOMException)?.name;
+  if (name === 'NotAllowedError' || name === 'SecurityError') return 'not-allowed';
+  return 'audio-capture';
+}
+
+export interface LevelMeter {
+  /** Loudness right now, as the RMS of the latest few milliseconds of samples (0 to 1). */
+  level(): number;
+  close(): void;
+}
+
+/** Taps a microphone stream for its loudness without altering what is recorded. */
+export function createLevelMeter(stream: MediaStream): LevelMeter {
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  context.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  return {
+    level() {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (const sample of samples) sum += sample * sample;
+      return Math.sqrt(sum / samples.length);
+    },
+    close() {
+      context.close().catch(() => {});
+    },
+  };
+}
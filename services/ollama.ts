@@ -1,78 +1,67 @@
 /**
- * This service provides functions to interact with a local Ollama server.
- * The prompting strategies are designed to be reusable and are based on the principle
- * of providing explicit, constrained instructions to the AI model (e.g., gemma2:2b)
- * to achieve reliable, structured, and grounded responses.
+ * The Ollama provider, speaking Ollama's own API: /api/tags, /api/chat and
+ * /api/generate. See services/llmProvider.ts for the interface it implements.
  */
-import { ChatMessage, OllamaModel, MessageRole } from '../types';
+import { LlmModel, MessageRole, SamplingOptions } from '../types';
+import type {
+  ChatStreamRequest,
+  LlmProvider,
+  LoadedModel,
+  ModelCapability,
+  ModelDetails,
+  ModelManager,
+  PullProgress,
+} from './llmProvider';
+import type { JsonSchema } from './jsonSchema';
+import { fetchWithTimeout } from './http';
 
-// --- Helper for robust fetching ---
-/**
- * A wrapper around fetch that includes a timeout.
- * @param resource The URL to fetch.
- * @param options Fetch options, including an optional `timeout` in milliseconds.
- */
-async function fetchWithTimeout(
-  resource: RequestInfo,
-  options: RequestInit & { timeout?: number; retries?: number } = {}
-): Promise<Response> {
-  const { timeout = 15000, retries = 3 } = options;
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt < retries; attempt++) {
-    const controller = new AbortController();
-    const id = setTimeout(() => controller.abort(), timeout);
-
-    try {
-      const response = await fetch(resource, {
-        ...options,
-        signal: controller.signal,
-      });
-      clearTimeout(id);
-
-      // Check for network errors
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`HTTP error! status: ${response.status} - ${errorText}`);
-      }
-
-      return response;
-    } catch (error) {
-      clearTimeout(id);
-      lastError = error as Error;
-      
-      // Log more specific error information
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.warn(
-        `Attempt ${attempt + 1}/${retries} failed:`,
-        errorMessage,
-        resource.toString()
-      );
-
-      if (attempt < retries - 1) {
-        // Enhanced exponential backoff with jitter
-        const baseDelay = Math.pow(2, attempt) * 1000;
-        const jitter = Math.random() * 1000;
-        await new Promise(resolve => setTimeout(resolve, baseDelay + jitter));
-      }
-    }
-  }
+// --- Type Definitions for Ollama API ---
 
-  // Throw a more descriptive error
-  const errorMessage = lastError instanceof Error ? lastError.message : 'Unknown error';
-  throw new Error(`Failed after ${retries} attempts: ${errorMessage}`);
+/** The model options Ollama takes under `options`, in its own names. */
+interface OllamaOptions {
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  num_ctx?: number;
+  num_predict?: number;
+  seed?: number;
+  repeat_penalty?: number;
+  stop?: string[];
 }
 
-// --- Type Definitions for Ollama API ---
+/** A duration string such as "5m", or seconds as a number; negative keeps the model loaded. */
+type KeepAlive = string | number;
 
 interface OllamaGenerateBody {
   model: string;
   prompt: string;
   stream: false;
-  format?: 'json';
-  options?: {
-    temperature?: number;
+  /** 'json' for any JSON, or a JSON Schema the output must follow. */
+  format?: 'json' | JsonSchema;
+  options?: OllamaOptions;
+  keep_alive?: KeepAlive;
+}
+
+/** Only the options that are set, so the rest stay at the model's defaults. */
+function toOllamaOptions(temperature: number, sampling: SamplingOptions = {}): OllamaOptions {
+  const options: OllamaOptions = {
+    temperature,
+    top_p: sampling.topP,
+    top_k: sampling.topK,
+    num_ctx: sampling.numCtx,
+    num_predict: sampling.numPredict,
+    seed: sampling.seed,
+    repeat_penalty: sampling.repeatPenalty,
+    stop: sampling.stop?.some(Boolean) ? sampling.stop.filter(Boolean) : undefined,
   };
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+}
+
+/** `keep_alive` for the request body, if set. A bare number is seconds; Ollama rejects it as a unitless string. */
+function toKeepAlive(sampling: SamplingOptions = {}): { keep_alive?: KeepAlive } {
+  const value = sampling.keepAlive?.trim();
+  if (!value) return {};
+  return { keep_alive: /^-?\d+$/.test(value) ? Number(value) : value };
 }
 
 interface OllamaGenerateResponse {
@@ -82,59 +71,34 @@ interface OllamaGenerateResponse {
   done: boolean;
 }
 
-// --- Internal Helper Functions ---
-
-/**
- * A resilient function to extract a JSON string from a model's response.
- * Per prompting best practices, this handles cases where the model might
- * accidentally wrap the JSON in markdown fences or add conversational text.
- * It identifies if the response should be an object or an array and extracts
- * the content between the first and last corresponding brackets.
- * @param text The text which may contain a JSON string.
- * @returns The extracted JSON string or null if not found.
- */
-function extractJson(text: string): string | null {
-  text = text.trim();
-  
-  const firstBrace = text.indexOf('{');
-  const firstBracket = text.indexOf('[');
-  
-  let startIndex;
-  
-  if (firstBrace === -1 && firstBracket === -1) {
-    return null;
-  }
-  
-  if (firstBrace !== -1 && (firstBrace < firstBracket || firstBracket === -1)) {
-    // Starts with '{', so it's an object
-    startIndex = firstBrace;
-    const lastBrace = text.lastIndexOf('}');
-    if (lastBrace > startIndex) {
-      return text.substring(startIndex, lastBrace + 1);
-    }
-  } else if (firstBracket !== -1) {
-    // Starts with '[', so it's an array
-    startIndex = firstBracket;
-    const lastBracket = text.lastIndexOf(']');
-    if (lastBracket > startIndex) {
-      return text.substring(startIndex, lastBracket + 1);
-    }
-  }
-
-  return null; // Could not find a matching pair
+/** One line of /api/pull's progress stream. */
+interface OllamaPullLine {
+  status?: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+  error?: string;
 }
 
+/** A model in /api/ps's list of loaded models. */
+interface OllamaPsModel {
+  name: string;
+  size?: number;
+  size_vram?: number;
+  expires_at?: string;
+}
 
 /**
  * The core generation function for non-streaming requests.
  * All non-chat interactions with the Ollama server are done via POST requests
  * to the /api/generate endpoint.
  */
-async function generate(baseUrl: string, body: OllamaGenerateBody): Promise<OllamaGenerateResponse> {
+async function generate(baseUrl: string, body: OllamaGenerateBody, signal?: AbortSignal): Promise<OllamaGenerateResponse> {
     const response = await fetchWithTimeout(`${baseUrl}/api/generate`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(body),
+        signal,
     });
 
     if (!response.ok) {
@@ -144,74 +108,54 @@ async function generate(baseUrl: string, body: OllamaGenerateBody): Promise<Olla
     return response.json();
 }
 
-
-// --- Public API ---
-
 /**
  * Fetches the list of available models from an Ollama server.
  */
-export async function getModels(baseUrl: string): Promise<OllamaModel[]> {
-  if (!baseUrl?.trim()) {
-    console.warn('No Ollama base URL provided');
+async function listModels(baseUrl: string, signal?: AbortSignal): Promise<LlmModel[]> {
+  const response = await fetchWithTimeout(`${baseUrl}/api/tags`, {
+    retries: 3,
+    timeout: 8000, // Increased timeout for reliability
+    signal,
+  });
+
+  const data = await response.json();
+  if (!data?.models || !Array.isArray(data.models)) {
+    console.warn('Unexpected response format from Ollama API');
     return [];
   }
 
-  try {
-    const response = await fetchWithTimeout(`${baseUrl}/api/tags`, {
-      retries: 3,
-      timeout: 8000 // Increased timeout for reliability
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Failed to fetch models from Ollama: ${response.status} ${errorText}`);
-    }
-
-    const data = await response.json();
-    if (!data?.models || !Array.isArray(data.models)) {
-      console.warn('Unexpected response format from Ollama API');
-      return [];
-    }
-
-    return data.models;
-  } catch (error) {
-    if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-      console.error('Cannot connect to Ollama server. Please ensure it is running.');
-    } else {
-      console.error('Failed to fetch Ollama models:', error);
-    }
-    return [];
-  }
+  return data.models;
 }
 
-
 /**
  * Generates a streaming chat response from Ollama.
  * Note: This uses the /api/chat endpoint to support conversational history,
  * which is a more suitable approach for chat applications than /api/generate.
  */
-export async function generateChatStream(
+async function chatStream(
   baseUrl: string,
-  model: string,
-  messages: ChatMessage[],
-  systemPrompt: string,
-  temperature: number,
-  onChunk: (chunk: string) => void,
-  onClose: () => void,
-  onError: (error: Error) => void
+  { model, messages, systemPrompt, temperature, sampling, think, onChunk, onClose, onError, signal }: ChatStreamRequest
 ): Promise<void> {
-    const fullMessages: ChatMessage[] = [
+    // Only what the API understands; local bookkeeping such as `interrupted`
+    // stays out of the request. Ollama takes images as bare base64.
+    const fullMessages = [
         { role: MessageRole.SYSTEM, content: systemPrompt },
         ...messages
-    ];
-
+    ].map(({ role, content, images }) => ({
+        role,
+        content,
+        ...(images?.length ? { images: images.map((url) => url.slice(url.indexOf(',') + 1)) } : {}),
+    }));
+
+    // With `think`, reasoning arrives in message.thinking, apart from the
+    // answer; only the answer is passed on.
     const body = {
         model,
         messages: fullMessages,
         stream: true,
-        options: {
-            temperature
-        }
+        ...(think === undefined ? {} : { think }),
+        ...toKeepAlive(sampling),
+        options: toOllamaOptions(temperature, sampling),
     };
     
   try {
@@ -219,6 +163,7 @@ export async function generateChatStream(
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(body),
+      signal,
     });
 
     if (!response.ok || !response.body) {
@@ -251,6 +196,7 @@ export async function generateChatStream(
       }
     }
   } catch (error) {
+    if (signal?.aborted) return;
     console.error('Ollama stream error:', error);
     onError(error as Error);
   } finally {
@@ -258,117 +204,131 @@ export async function generateChatStream(
   }
 }
 
-// --- Prompting Strategies for /api/generate ---
-
-interface GenerateOptions {
-    baseUrl: string;
-    model: string;
-    temperature?: number;
+// --- Model management: /api/pull, /api/delete, /api/show and /api/ps ---
+
+/** Calls `onLine` with each JSON object of a newline-delimited stream, each taken to be a `T`. */
+async function readNdjson<T>(response: Response, onLine: (data: T) => void): Promise<void> {
+  if (!response.body) throw new Error('The server sent no stream.');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.trim()) onLine(JSON.parse(line));
+    }
+  }
+  if (buffer.trim()) onLine(JSON.parse(buffer));
 }
 
-/**
- * **Strategy 1: Structured JSON Output**
- * Generates a response that is a syntactically correct JSON object or array.
- * This is achieved by combining an explicit prompt with the `format: "json"` API parameter.
- * @param prompt The user's instruction.
- * @param schemaDescription A description of the desired JSON structure.
- * @returns The parsed JSON object/array.
- */
-export async function generateJson<T>(options: GenerateOptions, prompt: string, schemaDescription: string): Promise<T> {
-    // The prompt includes an explicit command, schema definition, and negative constraints.
-    const fullPrompt = `Your response MUST be a single JSON object that adheres to the following description: "${schemaDescription}". Do not include markdown fences, introductory text, explanations, or any other text. Only provide the raw JSON object.\n\nUser request: "${prompt}"`;
-    
-    const body: OllamaGenerateBody = {
-        model: options.model,
-        prompt: fullPrompt,
-        stream: false,
-        format: "json",
-        options: { temperature: options.temperature ?? 0.2 }
-    };
-    
-    const result = await generate(options.baseUrl, body);
-    const jsonString = extractJson(result.response);
+async function pull(
+  baseUrl: string,
+  name: string,
+  onProgress: (progress: PullProgress) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const response = await fetchWithTimeout(`${baseUrl}/api/pull`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: name, stream: true }),
+    // A pull that fails part-way resumes from its finished layers, but
+    // retrying here would hide the error behind minutes of silence.
+    retries: 1,
+    signal,
+  });
+  await readNdjson<OllamaPullLine>(response, (data) => {
+    // Errors such as "pull model manifest: file does not exist" arrive in the
+    // stream, after a 200 OK.
+    if (data.error) throw new Error(data.error);
+    onProgress({ status: data.status ?? '', completed: data.completed, total: data.total });
+  });
+}
 
-    if (!jsonString) {
-        throw new Error("Model did not return a valid JSON object. Raw response: " + result.response);
-    }
-    
-    try {
-        return JSON.parse(jsonString) as T;
-    } catch (e) {
-        throw new Error(`Failed to parse JSON. Raw response: ${result.response}`);
-    }
+async function remove(baseUrl: string, name: string): Promise<void> {
+  await fetchWithTimeout(`${baseUrl}/api/delete`, {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: name }),
+    retries: 1,
+  });
 }
 
-/**
- * **Strategy 2: Constrained Text**
- * Generates a short, specific text output by giving the model a single, restrictive job.
- * @param text The text or topic to process.
- * @param task A clear, single instruction for the model (e.g., "Summarize this into a concise, one-line description.").
- * @returns The resulting text string.
- */
-export async function generateConstrainedText(options: GenerateOptions, text: string, task: string): Promise<string> {
-    // The prompt gives one clear task and defines the exact output format.
-    const fullPrompt = `${task}\n\nYour response must contain ONLY the result, with no preamble, labels, or explanation.\n\nText: "${text}"`;
-    
-    const body: OllamaGenerateBody = {
-        model: options.model,
-        prompt: fullPrompt,
-        stream: false,
-        options: { temperature: options.temperature ?? 0.7 }
-    };
-    
-    const result = await generate(options.baseUrl, body);
-    return result.response.trim();
+// The context Ollama gives a model whose Modelfile sets no num_ctx. Releases
+// before 0.6 used 2048; the environment variable OLLAMA_CONTEXT_LENGTH can
+// change it server-side, which the API does not report.
+const OLLAMA_DEFAULT_NUM_CTX = 4096;
+
+// Ollama also lists 'completion' and 'embedding', which every chat model has or none needs.
+const KNOWN_CAPABILITIES: readonly ModelCapability[] = ['vision', 'tools', 'thinking'];
+
+async function describeModel(baseUrl: string, name: string, signal?: AbortSignal): Promise<ModelDetails> {
+  const response = await fetchWithTimeout(`${baseUrl}/api/show`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: name }),
+    retries: 1,
+    signal,
+  });
+  const data = await response.json();
+  // The context length is keyed by architecture, e.g. "llama.context_length".
+  const info: Record<string, unknown> = data.model_info ?? {};
+  const contextKey = Object.keys(info).find((key) => key.endsWith('.context_length'));
+  // `parameters` is the Modelfile's PARAMETER lines, e.g. "num_ctx 8192\nstop <eos>".
+  const numCtx = typeof data.parameters === 'string' ? /^num_ctx\s+(\d+)/m.exec(data.parameters)?.[1] : undefined;
+  // Servers before 0.6.4 list no capabilities; a vision projector still gives vision away.
+  const listed: string[] = Array.isArray(data.capabilities) ? data.capabilities : data.projector_info ? ['vision'] : [];
+  return {
+    family: data.details?.family,
+    parameterSize: data.details?.parameter_size,
+    quantization: data.details?.quantization_level,
+    contextLength: contextKey ? Number(info[contextKey]) : undefined,
+    defaultContext: numCtx ? Number(numCtx) : OLLAMA_DEFAULT_NUM_CTX,
+    capabilities: KNOWN_CAPABILITIES.filter((capability) => listed.includes(capability)),
+  };
 }
 
-/**
- * **Strategy 3: Rich Content (e.g., Markdown)**
- * Generates formatted text by setting a persona and structure for the model to follow.
- * @param prompt The user's core request.
- * @param persona The role the model should play (e.g., "an expert in cloud infrastructure").
- * @param format The desired output format (e.g., "Markdown").
- * @param structure An optional list of required sections.
- * @returns The formatted string.
- */
-export async function generateRichContent(options: GenerateOptions, prompt: string, persona: string, format: string, structure?: string[]): Promise<string> {
-    // The prompt sets a persona, defines the format, and can mandate a structure.
-    let fullPrompt = `As ${persona}, ${prompt}.\n\nGenerate a detailed response in ${format} format.`;
-    if (structure && structure.length > 0) {
-        fullPrompt += `\nThe response must include the following sections: ${structure.join(', ')}.`;
-    }
-    
-    const body: OllamaGenerateBody = {
-        model: options.model,
-        prompt: fullPrompt,
-        stream: false,
-        options: { temperature: options.temperature ?? 0.8 }
-    };
-    
-    const result = await generate(options.baseUrl, body);
-    return result.response;
+async function listLoaded(baseUrl: string): Promise<LoadedModel[]> {
+  const response = await fetchWithTimeout(`${baseUrl}/api/ps`, { retries: 1, timeout: 8000 });
+  const data: { models?: OllamaPsModel[] } = await response.json();
+  if (!Array.isArray(data?.models)) return [];
+  return data.models.map((model) => ({
+    name: model.name,
+    size: model.size ?? 0,
+    sizeVram: model.size_vram ?? 0,
+    expiresAt: model.expires_at,
+  }));
 }
 
+function createModelManager(baseUrl: string): ModelManager {
+  return {
+    pull: (name, onProgress, signal) => pull(baseUrl, name, onProgress, signal),
+    remove: (name) => remove(baseUrl, name),
+    listLoaded: () => listLoaded(baseUrl),
+  };
+}
 
-/**
- * **Strategy 4: Grounded Q&A**
- * Forces the model to answer a question based ONLY on the context you provide,
- * preventing it from using its general knowledge.
- * @param context The data the model is allowed to use.
- * @param question The user's question about the context.
- * @returns The model's answer.
- */
-export async function generateGroundedResponse(options: GenerateOptions, context: string, question: string): Promise<string> {
-    // The prompt provides data first, constrains the scope, and then asks the question.
-    const fullPrompt = `You are an AI assistant. Your task is to answer the user's question based ONLY on the context provided below. Do not use any external knowledge.\n\n--- CONTEXT ---\n${context}\n\n--- QUESTION ---\n${question}`;
-    
-    const body: OllamaGenerateBody = {
-        model: options.model,
-        prompt: fullPrompt,
+export function createOllamaProvider(baseUrl: string): LlmProvider {
+  return {
+    kind: 'ollama',
+    models: createModelManager(baseUrl),
+    describeModel: (name, signal) => describeModel(baseUrl, name, signal),
+    listModels: (signal) => listModels(baseUrl, signal),
+    chatStream: (request) => chatStream(baseUrl, request),
+    generate: async ({ model, prompt, temperature, sampling, json, schema, signal }) => {
+      const body: OllamaGenerateBody = {
+        model,
+        prompt,
         stream: false,
-        options: { temperature: options.temperature ?? 0.5 }
-    };
-    
-    const result = await generate(options.baseUrl, body);
-    return result.response.trim();
-}
\ No newline at end of file
+        ...(schema ? { format: schema } : json ? { format: 'json' as const } : {}),
+        ...toKeepAlive(sampling),
+        options: toOllamaOptions(temperature, sampling),
+      };
+      const result = await generate(baseUrl, body, signal);
+      return result.response;
+    },
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * The provider for servers that speak OpenAI's API: llama.cpp server,
+ * LM Studio, vLLM and the like. Only /v1/models and /v1/chat/completions are
+ * used, since those are the parts every such server implements. See
+ * services/llmProvider.ts for the interface.
+ */
+import { ChatMessage, LlmModel, MessageRole, SamplingOptions } from '../types';
+import type { ChatStreamRequest, GenerateRequest, LlmProvider } from './llmProvider';
+import { fetchWithTimeout } from './http';
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  error?: { message?: string };
+}
+
+interface ChatCompletion {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+/**
+ * Splits a server-sent event stream into each event's data. Network chunks
+ * cut events anywhere, so partial lines wait for the rest.
+ */
+function createSseReader(onData: (data: string) => void) {
+  let buffer = '';
+  let data: string[] = [];
+  const dispatch = () => {
+    if (data.length > 0) onData(data.join('\n'));
+    data = [];
+  };
+  return {
+    push(text: string) {
+      buffer += text;
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line === '') dispatch();
+        // Lines starting with ':' are comments, which servers send as keep-alives.
+        else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+      }
+    },
+    /** The stream ended; an event without its closing blank line still counts. */
+    end() {
+      if (buffer.startsWith('data:')) data.push(buffer.slice(5).replace(/^ /, ''));
+      buffer = '';
+      dispatch();
+    },
+  };
+}
+
+/** A message in the API's shape; pictures go in as content parts beside the text. */
+function toApiMessage({ role, content, images }: ChatMessage) {
+  if (!images?.length) return { role, content };
+  return {
+    role,
+    content: [{ type: 'text', text: content }, ...images.map((url) => ({ type: 'image_url', image_url: { url } }))],
+  };
+}
+
+/**
+ * The sampling options in this API's names. top_k and repeat_penalty are not
+ * OpenAI's own, but llama.cpp server and vLLM take them and others ignore
+ * them. The context size and keep-alive are fixed when the server starts.
+ */
+function toSamplingParams(sampling: SamplingOptions = {}) {
+  const params = {
+    top_p: sampling.topP,
+    top_k: sampling.topK,
+    max_tokens: sampling.numPredict !== undefined && sampling.numPredict > 0 ? sampling.numPredict : undefined,
+    seed: sampling.seed,
+    repeat_penalty: sampling.repeatPenalty,
+    stop: sampling.stop?.some(Boolean) ? sampling.stop.filter(Boolean) : undefined,
+  };
+  return Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined));
+}
+
+/** The API root, whether the user typed the server's address or its /v1 path. */
+function apiRoot(baseUrl: string): string {
+  return `${baseUrl.replace(/\/v1$/, '')}/v1`;
+}
+
+async function listModels(baseUrl: string, signal?: AbortSignal): Promise<LlmModel[]> {
+  const response = await fetchWithTimeout(`${apiRoot(baseUrl)}/models`, { timeout: 8000, signal });
+  const data = await response.json();
+  if (!Array.isArray(data?.data)) {
+    console.warn('Unexpected response format from /v1/models');
+    return [];
+  }
+  return data.data.filter((model: { id?: unknown }) => typeof model.id === 'string').map((model: { id: string }) => ({ name: model.id }));
+}
+
+async function chatStream(
+  baseUrl: string,
+  { model, messages, systemPrompt, temperature, sampling, onChunk, onClose, onError, signal }: ChatStreamRequest
+): Promise<void> {
+  // Only what the API understands; local bookkeeping such as `interrupted`
+  // stays out of the request. `think` has no equivalent here.
+  const body = {
+    model,
+    messages: [{ role: MessageRole.SYSTEM, content: systemPrompt }, ...messages].map(toApiMessage),
+    temperature,
+    ...toSamplingParams(sampling),
+    stream: true,
+  };
+
+  try {
+    const response = await fetchWithTimeout(`${apiRoot(baseUrl)}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.body) throw new Error('The server sent no stream.');
+
+    let finished = false;
+    const sse = createSseReader((data) => {
+      if (finished) return;
+      if (data === '[DONE]') {
+        finished = true;
+        return;
+      }
+      let chunk: ChatCompletionChunk;
+      try {
+        chunk = JSON.parse(data);
+      } catch (error) {
+        console.error('Failed to parse stream chunk:', data, error);
+        return;
+      }
+      if (chunk.error) throw new Error(chunk.error.message || 'The server reported an error.');
+      const content = chunk.choices?.[0]?.delta?.content;
+      if (content) onChunk(content);
+    });
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    while (!finished) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      sse.push(decoder.decode(value, { stream: true }));
+    }
+    sse.end();
+    // Stop reading at [DONE]: some servers hold the connection open after it.
+    if (finished) reader.cancel().catch(() => {});
+  } catch (error) {
+    if (signal?.aborted) return;
+    console.error('Chat stream error:', error);
+    onError(error as Error);
+  } finally {
+    onClose();
+  }
+}
+
+async function generate(baseUrl: string, { model, prompt, temperature, sampling, schema, signal }: GenerateRequest): Promise<string> {
+  // Bare `json` is not passed on as response_format: servers disagree on
+  // which kinds they accept (LM Studio rejects json_object), and the
+  // prompting strategies already ask for JSON and extract it. A schema is,
+  // since llama.cpp server, LM Studio and vLLM all take json_schema.
+  const response = await fetchWithTimeout(`${apiRoot(baseUrl)}/chat/completions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model,
+      messages: [{ role: MessageRole.USER, content: prompt }],
+      temperature,
+      ...toSamplingParams(sampling),
+      ...(schema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema, strict: true } } } : {}),
+      stream: false,
+    }),
+    signal,
+  });
+  const data: ChatCompletion = await response.json();
+  return data.choices?.[0]?.message?.content ?? '';
+}
+
+export function createOpenAiCompatibleProvider(baseUrl: string): LlmProvider {
+  return {
+    kind: 'openai',
+    listModels: (signal) => listModels(baseUrl, signal),
+    chatStream: (request) => chatStream(baseUrl, request),
+    generate: (request) => generate(baseUrl, request),
+  };
+}
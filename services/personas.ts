@@ -0,0 +1,52 @@
+/**
+ * Personas: named bundles of the settings that make an assistant setup, so a
+ * kiosk can go from receptionist to tech support in one step, from the
+ * settings panel or by saying "switch to tech support".
+ */
+import { Persona, PersonaSettings } from '../types';
+import { createId } from './conversationStore';
+import { findWakeWord } from './wakeWord';
+
+/** The persona-owned part of `settings`, copied so later edits to either side stay apart. */
+export function personaSettingsFrom(settings: PersonaSettings): PersonaSettings {
+  return {
+    systemPrompt: settings.systemPrompt,
+    selectedModel: settings.selectedModel,
+    temperature: settings.temperature,
+    think: settings.think,
+    sampling: { ...settings.sampling, ...(settings.sampling.stop ? { stop: [...settings.sampling.stop] } : {}) },
+    voice: { ...settings.voice },
+    triggerWord: settings.triggerWord,
+    backdropTheme: settings.backdropTheme,
+  };
+}
+
+export function createPersona(name: string, greeting: string, settings: PersonaSettings): Persona {
+  return { id: createId(), name: name.trim(), greeting: greeting.trim(), ...personaSettingsFrom(settings) };
+}
+
+export function greetingFor(persona: Persona): string {
+  return persona.greeting || `Hello, I'm ${persona.name}. How can I help?`;
+}
+
+// "switch to receptionist", "change over to the tech support persona", "become the tour guide".
+const SWITCH_COMMAND = /^(?:please\s+)?(?:(?:switch|change)(?:\s+over)?\s+(?:to|into)|become)\s+(.+)$/i;
+
+/**
+ * The persona a spoken "switch to …" names, or null when the transcript is
+ * not such a command. Names are heard no more reliably than wake words, so
+ * they are matched the same way, but the whole rest of the command has to be
+ * the name: "switch to receptionist and book a room" is left for the model.
+ */
+export function findPersonaSwitch(transcript: string, personas: Persona[], sensitivity: number): Persona | null {
+  const command = transcript.trim().replace(/[\s.!?]+$/, '').match(SWITCH_COMMAND);
+  if (!command) return null;
+  const target = command[1].replace(/^(?:the|my)\s+/i, '').replace(/\s+(?:persona|profile|mode)$/i, '');
+  const match = findWakeWord(
+    target,
+    personas.map((persona) => persona.name),
+    sensitivity
+  );
+  if (!match || match.remainder) return null;
+  return personas.find((persona) => persona.name === match.wakeWord) ?? null;
+}
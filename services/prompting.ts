@@ -0,0 +1,232 @@
+/**
+ * Reusable prompting strategies, based on the principle of giving the model
+ * explicit, constrained instructions (e.g., gemma2:2b) to get reliable,
+ * structured and grounded responses. They work through any LLM provider.
+ */
+import { SamplingOptions } from '../types';
+import { LlmProvider } from './llmProvider';
+import { JsonSchema, Schema, SchemaViolation, formatViolation, validateJson } from './jsonSchema';
+
+// --- Internal Helper Functions ---
+
+/**
+ * A resilient function to extract a JSON string from a model's response.
+ * Per prompting best practices, this handles cases where the model might
+ * accidentally wrap the JSON in markdown fences or add conversational text.
+ * It identifies if the response should be an object or an array and extracts
+ * the content between the first and last corresponding brackets.
+ * @param text The text which may contain a JSON string.
+ * @returns The extracted JSON string or null if not found.
+ */
+function extractJson(text: string): string | null {
+  text = text.trim();
+  
+  const firstBrace = text.indexOf('{');
+  const firstBracket = text.indexOf('[');
+  
+  let startIndex;
+  
+  if (firstBrace === -1 && firstBracket === -1) {
+    return null;
+  }
+  
+  if (firstBrace !== -1 && (firstBrace < firstBracket || firstBracket === -1)) {
+    // Starts with '{', so it's an object
+    startIndex = firstBrace;
+    const lastBrace = text.lastIndexOf('}');
+    if (lastBrace > startIndex) {
+      return text.substring(startIndex, lastBrace + 1);
+    }
+  } else if (firstBracket !== -1) {
+    // Starts with '[', so it's an array
+    startIndex = firstBracket;
+    const lastBracket = text.lastIndexOf(']');
+    if (lastBracket > startIndex) {
+      return text.substring(startIndex, lastBracket + 1);
+    }
+  }
+
+  return null; // Could not find a matching pair
+}
+
+// --- Prompting Strategies ---
+
+interface GenerateOptions {
+    provider: LlmProvider;
+    model: string;
+    temperature?: number;
+    sampling?: SamplingOptions;
+    /** Cancels the request, including any retries still pending. */
+    signal?: AbortSignal;
+}
+
+/**
+ * Thrown by generateJson when the model's answer still breaks the schema
+ * after every repair. The violations are those of the last attempt.
+ */
+export interface StructuredOutputError extends Error {
+    /** Each way the answer broke the schema; a single entry when it was not JSON at all. */
+    violations: SchemaViolation[];
+    /** The model's last answer, as it came. */
+    response: string;
+    /** Requests made: the first plus every repair. */
+    attempts: number;
+}
+
+export function isStructuredOutputError(error: unknown): error is StructuredOutputError {
+    return error instanceof Error && error.name === 'StructuredOutputError';
+}
+
+function structuredOutputError(violations: SchemaViolation[], response: string, attempts: number): StructuredOutputError {
+    const error = new Error(
+        `The model's JSON did not match the schema after ${attempts} ${attempts === 1 ? 'attempt' : 'attempts'}:\n` +
+        violations.map((violation) => `- ${formatViolation(violation)}`).join('\n') +
+        `\n\nRaw response: ${response}`
+    );
+    error.name = 'StructuredOutputError';
+    return Object.assign(error, { violations, response, attempts });
+}
+
+/** The data in one answer, or everything wrong with it. */
+function readJsonAnswer(response: string, schema?: JsonSchema): { value: unknown } | { violations: SchemaViolation[] } {
+    let value: unknown;
+    try {
+        // The whole answer first: a schema may ask for a bare string, number
+        // or boolean, which has no brackets to extract.
+        value = JSON.parse(response.trim().replace(/^```\w*\s*|\s*```$/g, ''));
+    } catch {
+        const jsonString = extractJson(response);
+        if (!jsonString) {
+            return { violations: [{ path: '', message: 'not valid JSON, and no JSON object or array found in the response' }] };
+        }
+        try {
+            value = JSON.parse(jsonString);
+        } catch (e) {
+            return { violations: [{ path: '', message: `not valid JSON (${e instanceof Error ? e.message : String(e)})` }] };
+        }
+    }
+    const violations = schema ? validateJson(value, schema) : [];
+    return violations.length > 0 ? { violations } : { value };
+}
+
+interface JsonOptions extends GenerateOptions {
+    /** How many times a broken answer is sent back with its problems to be fixed. Defaults to 2. */
+    maxRepairs?: number;
+}
+
+/**
+ * **Strategy 1: Structured JSON Output**
+ * Generates a response that is syntactically correct JSON: an object or array,
+ * or whatever value the schema asks for. This is achieved by combining an explicit prompt with the server's JSON mode, where it has one.
+ *
+ * Given a JSON Schema (see services/jsonSchema.ts), the server is held to it
+ * where it can be, the answer is validated against it, and an answer that
+ * breaks it goes back to the model with the list of problems, up to
+ * `maxRepairs` times. A prose description gets the same treatment for
+ * answers that are not JSON at all, but nothing more can be checked.
+ * @param prompt The user's instruction.
+ * @param schema The JSON Schema the result must follow, or a description of the desired JSON structure.
+ * @returns The parsed, validated JSON value.
+ * @throws StructuredOutputError when no attempt produced conforming JSON.
+ */
+export async function generateJson<T>(options: JsonOptions, prompt: string, schema: Schema<T>): Promise<T>;
+export async function generateJson<T = unknown>(options: JsonOptions, prompt: string, schema: JsonSchema | string): Promise<T>;
+export async function generateJson<T>(options: JsonOptions, prompt: string, schema: JsonSchema | string): Promise<T> {
+    const jsonSchema = typeof schema === 'string' ? undefined : schema;
+    // The prompt includes an explicit command, schema definition, and negative constraints.
+    const requirement = jsonSchema
+        ? `Your response MUST be a single JSON value that follows this JSON Schema:\n${JSON.stringify(jsonSchema, null, 2)}\n\n`
+        : `Your response MUST be a single JSON object that adheres to the following description: "${schema}". `;
+    const fullPrompt = `${requirement}Do not include markdown fences, introductory text, explanations, or any other text. Only provide the raw JSON${jsonSchema ? '' : ' object'}.\n\nUser request: "${prompt}"`;
+    const maxRepairs = options.maxRepairs ?? 2;
+
+    let request = fullPrompt;
+    for (let attempt = 1; ; attempt++) {
+        const response = await options.provider.generate({
+            model: options.model,
+            prompt: request,
+            temperature: options.temperature ?? 0.2,
+            json: true,
+            schema: jsonSchema,
+            sampling: options.sampling,
+            signal: options.signal,
+        });
+        const answer = readJsonAnswer(response, jsonSchema);
+        if ('value' in answer) return answer.value as T;
+        if (attempt > maxRepairs) throw structuredOutputError(answer.violations, response, attempt);
+
+        // The repair keeps the original instructions and shows the model its
+        // own answer with what is wrong with it, so it fixes rather than starts over.
+        request = `${fullPrompt}\n\n--- YOUR PREVIOUS RESPONSE ---\n${response}\n\n--- PROBLEMS WITH IT ---\n${answer.violations.map((violation) => `- ${formatViolation(violation)}`).join('\n')}\n\nReturn the corrected JSON only, fixing every problem listed.`;
+    }
+}
+
+/**
+ * **Strategy 2: Constrained Text**
+ * Generates a short, specific text output by giving the model a single, restrictive job.
+ * @param text The text or topic to process.
+ * @param task A clear, single instruction for the model (e.g., "Summarize this into a concise, one-line description.").
+ * @returns The resulting text string.
+ */
+export async function generateConstrainedText(options: GenerateOptions, text: string, task: string): Promise<string> {
+    // The prompt gives one clear task and defines the exact output format.
+    const fullPrompt = `${task}\n\nYour response must contain ONLY the result, with no preamble, labels, or explanation.\n\nText: "${text}"`;
+    
+    const response = await options.provider.generate({
+        model: options.model,
+        prompt: fullPrompt,
+        temperature: options.temperature ?? 0.7,
+        sampling: options.sampling,
+        signal: options.signal,
+    });
+    return response.trim();
+}
+
+/**
+ * **Strategy 3: Rich Content (e.g., Markdown)**
+ * Generates formatted text by setting a persona and structure for the model to follow.
+ * @param prompt The user's core request.
+ * @param persona The role the model should play (e.g., "an expert in cloud infrastructure").
+ * @param format The desired output format (e.g., "Markdown").
+ * @param structure An optional list of required sections.
+ * @returns The formatted string.
+ */
+export async function generateRichContent(options: GenerateOptions, prompt: string, persona: string, format: string, structure?: string[]): Promise<string> {
+    // The prompt sets a persona, defines the format, and can mandate a structure.
+    let fullPrompt = `As ${persona}, ${prompt}.\n\nGenerate a detailed response in ${format} format.`;
+    if (structure && structure.length > 0) {
+        fullPrompt += `\nThe response must include the following sections: ${structure.join(', ')}.`;
+    }
+    
+    const response = await options.provider.generate({
+        model: options.model,
+        prompt: fullPrompt,
+        temperature: options.temperature ?? 0.8,
+        sampling: options.sampling,
+        signal: options.signal,
+    });
+    return response;
+}
+
+
+/**
+ * **Strategy 4: Grounded Q&A**
+ * Forces the model to answer a question based ONLY on the context you provide,
+ * preventing it from using its general knowledge.
+ * @param context The data the model is allowed to use.
+ * @param question The user's question about the context.
+ * @returns The model's answer.
+ */
+export async function generateGroundedResponse(options: GenerateOptions, context: string, question: string): Promise<string> {
+    // The prompt provides data first, constrains the scope, and then asks the question.
+    const fullPrompt = `You are an AI assistant. Your task is to answer the user's question based ONLY on the context provided below. Do not use any external knowledge.\n\n--- CONTEXT ---\n${context}\n\n--- QUESTION ---\n${question}`;
+    
+    const response = await options.provider.generate({
+        model: options.model,
+        prompt: fullPrompt,
+        temperature: options.temperature ?? 0.5,
+        sampling: options.sampling,
+        signal: options.signal,
+    });
+    return response.trim();
+}
\ No newline at end of file
@@ -0,0 +1,285 @@
+/**
+ * The saved form of Settings: a version number, migrations from older
+ * versions, and a field-by-field check of whatever was read back.
+ *
+ * Settings come from localStorage and from files copied between kiosks, and
+ * either can hold anything: an old layout, a hand edit gone wrong, a theme a
+ * later release removed. Every field is checked on the way in, and a bad one
+ * falls back to its default on its own rather than taking the rest with it.
+ */
+import {
+  BackdropTheme,
+  CaptionMode,
+  LlmProviderKind,
+  Persona,
+  SamplingOptions,
+  Settings,
+  SttEngine,
+  TtsEngine,
+  VadSettings,
+  VoiceSettings,
+} from '../types';
+import { BACKDROP_ORDER } from '../components/backdropPresets';
+import { personaSettingsFrom } from './personas';
+
+/** Bump together with a new entry in MIGRATIONS whenever the saved layout changes. */
+export const SETTINGS_VERSION = 3;
+
+// Marks our export files, so an import can tell them from any other JSON.
+const SETTINGS_FORMAT = 'ai-hologram-settings';
+
+export const defaultSettings: Settings = {
+  llmProvider: 'ollama',
+  llmUrl: 'http://localhost:11434',
+  selectedModel: 'gemma2:2b',
+  systemPrompt: 'You are a helpful and concise AI assistant.',
+  temperature: 0.7,
+  think: false,
+  sampling: {},
+  triggerWord: 'hey assistant',
+  wakeWordSensitivity: 0.5,
+  followUpSeconds: 0,
+  backdropTheme: 'nature',
+  voice: {
+    voiceURI: '',
+    rate: 1,
+    pitch: 1,
+    volume: 1,
+  },
+  language: '',
+  respondInLanguage: false,
+  triggerWordsByLanguage: {},
+  sttEngine: 'webspeech',
+  whisperUrl: 'http://localhost:8080/inference',
+  vad: {
+    enabled: false,
+    silenceMs: 1200,
+    minSpeechMs: 300,
+    threshold: 0.02,
+  },
+  ttsEngine: 'webspeech',
+  ttsUrl: 'http://localhost:5002/api/tts',
+  captions: 'on',
+  personas: [],
+  activePersonaId: null,
+};
+
+type RawSettings = Record<string, unknown>;
+
+/**
+ * Each entry upgrades data saved by version n to version n + 1. Version 1 is
+ * the unversioned object saved before this schema existed.
+ */
+const MIGRATIONS: Record<number, (data: RawSettings) => RawSettings> = {
+  // Trigger words used to be one setting for every language. Keep the old
+  // one as the current language's, so switching language and back keeps it.
+  1: (data) => ({
+    ...data,
+    triggerWordsByLanguage:
+      data.triggerWordsByLanguage ??
+      (typeof data.triggerWord === 'string' ? { [typeof data.language === 'string' ? data.language : '']: data.triggerWord } : {}),
+  }),
+  // The server URL was Ollama's alone until other providers came along.
+  2: ({ ollamaUrl, ...data }) => ({ ...data, llmProvider: 'ollama', llmUrl: ollamaUrl }),
+};
+
+function migrate(data: RawSettings): RawSettings {
+  const version = typeof data.version === 'number' ? data.version : 1;
+  if (version > SETTINGS_VERSION) throw new Error('These settings were saved by a newer version of this app.');
+  let migrated = data;
+  for (let v = version; v < SETTINGS_VERSION; v++) migrated = MIGRATIONS[v](migrated);
+  return migrated;
+}
+
+// A check either keeps the value (possibly tidied up) or says what it expected.
+type Checked<T> = { value: T } | { expected: string };
+type Check<T> = (raw: unknown) => Checked<T>;
+
+const text: Check<string> = (raw) => (typeof raw === 'string' ? { value: raw } : { expected: 'text' });
+
+const flag: Check<boolean> = (raw) => (typeof raw === 'boolean' ? { value: raw } : { expected: 'true or false' });
+
+/** Numbers, including ones written as strings by hand, pulled into range. */
+const number = (min: number, max: number): Check<number> => (raw) => {
+  const n = typeof raw === 'string' && raw.trim() ? Number(raw) : raw;
+  if (typeof n !== 'number' || !Number.isFinite(n)) return { expected: `a number from ${min} to ${max}` };
+  return { value: Math.min(max, Math.max(min, n)) };
+};
+
+/** Whole numbers, rounded and pulled into range like `number`. */
+const integer = (min: number, max: number): Check<number> => (raw) => {
+  const checked = number(min, max)(raw);
+  return 'value' in checked ? { value: Math.round(checked.value) } : { expected: `a whole number from ${min} to ${max}` };
+};
+
+const oneOf = <T extends string>(options: readonly T[]): Check<T> => (raw) =>
+  options.includes(raw as T) ? { value: raw as T } : { expected: `one of ${options.join(', ')}` };
+
+const textRecord: Check<Record<string, string>> = (raw) => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return { expected: 'a list of names and texts' };
+  return { value: Object.fromEntries(Object.entries(raw).filter((entry): entry is [string, string] => typeof entry[1] === 'string')) };
+};
+
+const textList: Check<string[]> = (raw) =>
+  Array.isArray(raw) && raw.every((item) => typeof item === 'string') ? { value: raw } : { expected: 'a list of texts' };
+
+type Checks<T> = { [K in keyof T]: Check<T[K]> };
+
+/**
+ * Checks each field of `checks` in `raw`, keeping the default for any that is
+ * missing or wrong, and noting the wrong ones in `problems` under `path`.
+ */
+function checkFields<T extends object>(raw: unknown, checks: Checks<T>, defaults: T, path: string, problems: string[]): T {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    if (raw !== undefined) problems.push(`${path.replace(/\.$/, '') || 'settings'}: expected a group of settings; using the defaults.`);
+    return { ...defaults };
+  }
+  const source = raw as Record<string, unknown>;
+  const result = { ...defaults };
+  for (const key of Object.keys(checks) as (keyof T & string)[]) {
+    if (source[key] === undefined) continue;
+    const checked = checks[key](source[key]);
+    if ('expected' in checked) {
+      problems.push(`${path}${key}: expected ${checked.expected}, got ${JSON.stringify(source[key])}; using the default.`);
+    } else {
+      result[key] = checked.value;
+    }
+  }
+  return result;
+}
+
+/** A check for a nested group, for use inside another group's checks. */
+const group = <T extends object>(checks: Checks<T>, defaults: T, path: string, problems: string[]): Check<T> => (raw) => ({
+  value: checkFields(raw, checks, defaults, path, problems),
+});
+
+const LLM_PROVIDERS: readonly LlmProviderKind[] = ['ollama', 'openai'];
+const STT_ENGINES: readonly SttEngine[] = ['webspeech', 'whisper'];
+const TTS_ENGINES: readonly TtsEngine[] = ['webspeech', 'http'];
+const CAPTION_MODES: readonly CaptionMode[] = ['off', 'on', 'only'];
+const backdrop: Check<BackdropTheme> = oneOf(BACKDROP_ORDER);
+
+const VOICE_CHECKS: Checks<VoiceSettings> = {
+  voiceURI: text,
+  rate: number(0.5, 2),
+  pitch: number(0, 2),
+  volume: number(0, 1),
+};
+
+const VAD_CHECKS: Checks<VadSettings> = {
+  enabled: flag,
+  silenceMs: number(400, 4000),
+  minSpeechMs: number(100, 1500),
+  threshold: number(0.005, 0.1),
+};
+
+const SAMPLING_CHECKS: Checks<SamplingOptions> = {
+  topP: number(0, 1),
+  topK: integer(1, 1000),
+  numCtx: integer(256, 1048576),
+  numPredict: integer(-1, 131072),
+  seed: integer(0, Number.MAX_SAFE_INTEGER),
+  repeatPenalty: number(0, 2),
+  stop: textList,
+  keepAlive: text,
+};
+
+function checkPersonas(raw: unknown, problems: string[]): Persona[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    problems.push('personas: expected a list; none were kept.');
+    return [];
+  }
+  const personas: Persona[] = [];
+  raw.forEach((entry, i) => {
+    const { id, name } = (entry ?? {}) as Partial<Persona>;
+    if (typeof id !== 'string' || !id || typeof name !== 'string' || !name.trim()) {
+      problems.push(`personas[${i}]: has no id or name; left out.`);
+      return;
+    }
+    const path = `personas[${i}].`;
+    const checks: Checks<Persona> = {
+      id: text,
+      name: text,
+      greeting: text,
+      systemPrompt: text,
+      selectedModel: text,
+      temperature: number(0, 2),
+      think: flag,
+      sampling: group(SAMPLING_CHECKS, defaultSettings.sampling, `${path}sampling.`, problems),
+      voice: group(VOICE_CHECKS, defaultSettings.voice, `${path}voice.`, problems),
+      triggerWord: text,
+      backdropTheme: backdrop,
+    };
+    personas.push(checkFields(entry, checks, { id, name, greeting: '', ...personaSettingsFrom(defaultSettings) }, path, problems));
+  });
+  return personas;
+}
+
+/**
+ * Brings saved settings of any version up to date and checks every field.
+ * Throws only when nothing can be used; otherwise `problems` lists each field
+ * that was replaced by its default, in words fit to show the user.
+ */
+export function readSettings(data: unknown): { settings: Settings; problems: string[] } {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('The file does not hold settings.');
+  }
+  const raw = data as RawSettings;
+  if (raw.format !== undefined && raw.format !== SETTINGS_FORMAT) throw new Error('The file does not hold settings.');
+  const migrated = migrate(raw);
+
+  const problems: string[] = [];
+  const personas = checkPersonas(migrated.personas, problems);
+  const settings: Settings = {
+    ...checkFields<Omit<Settings, 'personas' | 'activePersonaId'>>(
+      migrated,
+      {
+        llmProvider: oneOf(LLM_PROVIDERS),
+        llmUrl: text,
+        selectedModel: text,
+        systemPrompt: text,
+        temperature: number(0, 2),
+        think: flag,
+        sampling: group(SAMPLING_CHECKS, defaultSettings.sampling, 'sampling.', problems),
+        triggerWord: text,
+        wakeWordSensitivity: number(0, 1),
+        followUpSeconds: number(0, 15),
+        backdropTheme: backdrop,
+        language: text,
+        respondInLanguage: flag,
+        triggerWordsByLanguage: textRecord,
+        sttEngine: oneOf(STT_ENGINES),
+        whisperUrl: text,
+        vad: group(VAD_CHECKS, defaultSettings.vad, 'vad.', problems),
+        voice: group(VOICE_CHECKS, defaultSettings.voice, 'voice.', problems),
+        ttsEngine: oneOf(TTS_ENGINES),
+        ttsUrl: text,
+        captions: oneOf(CAPTION_MODES),
+      },
+      defaultSettings,
+      '',
+      problems
+    ),
+    personas,
+    // A persona deleted by hand from the file takes its "active" mark with it.
+    activePersonaId: personas.some((p) => p.id === migrated.activePersonaId) ? (migrated.activePersonaId as string) : null,
+  };
+  return { settings, problems };
+}
+
+/** Parses an exported settings file; see readSettings. Throws with a message fit to show the user. */
+export function parseSettingsJson(json: string): { settings: Settings; problems: string[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  return readSettings(data);
+}
+
+/** The saved form of `settings`, for localStorage and for export files alike. */
+export function serializeSettings(settings: Settings, pretty = false): string {
+  return JSON.stringify({ format: SETTINGS_FORMAT, version: SETTINGS_VERSION, ...settings }, null, pretty ? 2 : undefined);
+}
@@ -0,0 +1,177 @@
+/**
+ * Rewrites model output into something worth hearing.
+ *
+ * Models answer in Markdown, and speech synthesis reads it literally:
+ * "asterisk asterisk", "backtick", a full URL letter by letter, the name of
+ * every emoji. This turns a segment of that output into plain spoken text. It
+ * works on one segment at a time (see speechSegmenter.ts), so it runs on a
+ * streaming reply as readily as on a finished one. The on-screen text is left
+ * alone; only what goes to the voice passes through here, and, lightly,
+ * what goes to the captions (normalizeForCaption).
+ */
+
+export interface SpeechNormalizeOptions {
+  /** Fenced code is never read out: either say that there is some, or leave it out entirely. */
+  codeBlocks?: 'announce' | 'skip';
+}
+
+// Longest spellings first, so "km/h" wins over "km" and "kWh" over "W".
+const UNITS: [string, string, string][] = [
+  ['km/h', 'kilometer per hour', 'kilometers per hour'],
+  ['kWh', 'kilowatt hour', 'kilowatt hours'],
+  ['mph', 'mile per hour', 'miles per hour'],
+  ['GHz', 'gigahertz', 'gigahertz'],
+  ['MHz', 'megahertz', 'megahertz'],
+  ['km', 'kilometer', 'kilometers'],
+  ['cm', 'centimeter', 'centimeters'],
+  ['mm', 'millimeter', 'millimeters'],
+  ['kg', 'kilogram', 'kilograms'],
+  ['mg', 'milligram', 'milligrams'],
+  ['ml', 'milliliter', 'milliliters'],
+  ['lbs', 'pound', 'pounds'],
+  ['lb', 'pound', 'pounds'],
+  ['mi', 'mile', 'miles'],
+  ['ft', 'foot', 'feet'],
+  ['TB', 'terabyte', 'terabytes'],
+  ['GB', 'gigabyte', 'gigabytes'],
+  ['MB', 'megabyte', 'megabytes'],
+  ['KB', 'kilobyte', 'kilobytes'],
+  ['kW', 'kilowatt', 'kilowatts'],
+  ['ms', 'millisecond', 'milliseconds'],
+  ['m', 'meter', 'meters'],
+  ['g', 'gram', 'grams'],
+  ['L', 'liter', 'liters'],
+  ['W', 'watt', 'watts'],
+];
+
+const NUMBER = String.raw`\d(?:[\d,]*\d)?(?:\.\d+)?`;
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+const UNIT_PATTERN = new RegExp(
+  `(${NUMBER})\\s?(${UNITS.map(([unit]) => escapeRegExp(unit)).join('|')})(?![\\w/])`,
+  'g'
+);
+const UNIT_NAMES = new Map(UNITS.map(([unit, one, many]) => [unit, [one, many] as const]));
+
+const CURRENCIES: Record<string, [string, string]> = {
+  $: ['dollar', 'dollars'],
+  '€': ['euro', 'euros'],
+  '£': ['pound', 'pounds'],
+};
+
+const plural = (amount: string, [one, many]: readonly [string, string]) =>
+  Number(amount.replace(/,/g, '')) === 1 ? one : many;
+
+/** The host of a URL without "www.", which is all anyone wants to hear of it. */
+function domainOf(url: string): string {
+  try {
+    const withScheme = /^[a-z][\w+.-]*:\/\//i.test(url) ? url : `https://${url}`;
+    return new URL(withScheme).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+// Words that make a bare "m" after a number minutes rather than meters.
+const BEFORE_DURATION = /\b(?:wait|waited|waiting|in|after|every|within|takes?|took|timer|sleep|delay|timeout|interval|lasts?|lasted)\s+$/i;
+const AFTER_DURATION = /^\s*(?:ago|later|left|remaining|\d+\s?s\b)/i;
+const NEXT_TO_HOURS = /\d\s?h\s*$/i;
+
+/** Whether the number and "m" at `offset` read as a duration: "wait 5m", "1h 30m", "5m 20s", "10m ago". */
+function isDuration(text: string, offset: number, length: number): boolean {
+  const before = text.slice(Math.max(0, offset - 20), offset);
+  const after = text.slice(offset + length, offset + length + 20);
+  return BEFORE_DURATION.test(before) || NEXT_TO_HOURS.test(before) || AFTER_DURATION.test(after);
+}
+
+function stripCode(text: string, mode: 'announce' | 'skip'): string {
+  // A closed fence, or an open one running to the end of the segment (the
+  // stream stopped mid-block).
+  return text.replace(/```([\w+#.-]*)[^\n]*\n?[\s\S]*?(?:```|$)/g, (_, lang: string) => {
+    if (mode === 'skip') return ' ';
+    return lang ? ` Here is some ${lang} code, shown on screen. ` : ' Here is some code, shown on screen. ';
+  });
+}
+
+/** `shortenCode` puts long inline code spans, which are not worth saying, in words. */
+function stripMarkdown(text: string, shortenCode = true): string {
+  return text
+    // Images and links keep their visible words.
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)]*)\)/g, '$1')
+    // Inline code: short spans are identifiers worth saying, long ones are not.
+    .replace(/`([^`]+)`/g, (_, code: string) => (shortenCode && code.length > 40 ? 'the code shown on screen' : code))
+    // Block structure at the start of a line.
+    .replace(/^[ \t]{0,3}#{1,6}[ \t]+/gm, '')
+    .replace(/^[ \t]{0,3}>[ \t]?/gm, '')
+    .replace(/^[ \t]*[-*+][ \t]+/gm, '')
+    .replace(/^[ \t]*([-*_])(?:[ \t]*\1){2,}[ \t]*$/gm, '')
+    // Tables: drop the divider row, read the cells as a list.
+    .replace(/^[ \t]*\|?(?:[ \t]*:?-{2,}:?[ \t]*\|)+[ \t]*:?-*:?[ \t]*\|?[ \t]*$/gm, '')
+    .replace(/^[ \t]*\|(.*)\|[ \t]*$/gm, (_, cells: string) => `${cells.split('|').map((c) => c.trim()).filter(Boolean).join(', ')}.`)
+    // Emphasis. Underscores only at word edges, so snake_case survives.
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/(^|[^\w*])\*(?!\s)([^*]+?)\*(?!\w)/g, '$1$2')
+    .replace(/(^|\W)_(?!\s)([^_]+?)_(?!\w)/g, '$1$2')
+    // Whatever markers are left over from a span the stream has not closed yet,
+    // but not a "*" standing between operands, as in "x * y" or "2*3".
+    .replace(/`+/g, '')
+    .replace(/\*{1,3}/g, (marker, offset: number, whole: string) => {
+      const before = whole[offset - 1] ?? '';
+      const after = whole[offset + marker.length] ?? '';
+      const between = (/\s/.test(before) && /\s/.test(after)) || (/[\w)]/.test(before) && /[\w(]/.test(after));
+      return between ? marker : '';
+    });
+}
+
+function verbalize(text: string): string {
+  return text
+    .replace(/\bhttps?:\/\/[^\s)>\]]+/gi, (url) => domainOf(url))
+    .replace(/\bwww\.[^\s)>\]]+/gi, (url) => domainOf(url))
+    // Emoji, with the joiners, variation selectors, skin tones and tag
+    // characters (subdivision flags) that glue them together.
+    .replace(/[\p{Extended_Pictographic}\p{Emoji_Modifier}\u{1F1E6}-\u{1F1FF}\u{E0020}-\u{E007F}‍️]+/gu, '')
+    .replace(/:[a-z0-9_+-]+:/g, '')
+    .replace(new RegExp(`([$€£])(${NUMBER})`, 'g'), (_, symbol: string, amount: string) =>
+      `${amount} ${plural(amount, CURRENCIES[symbol])}`)
+    .replace(new RegExp(`(${NUMBER})\\s?%`, 'g'), '$1 percent')
+    .replace(new RegExp(`(${NUMBER})\\s?°\\s?([CF])\\b`, 'g'), (_, amount: string, scale: string) =>
+      `${amount} degrees ${scale === 'C' ? 'Celsius' : 'Fahrenheit'}`)
+    .replace(/°/g, ' degrees')
+    .replace(UNIT_PATTERN, (match: string, amount: string, unit: string, offset: number, whole: string) => {
+      if (unit === 'm' && isDuration(whole, offset, match.length)) return `${amount} ${plural(amount, ['minute', 'minutes'])}`;
+      return `${amount} ${plural(amount, UNIT_NAMES.get(unit)!)}`;
+    })
+    // Number ranges: "3-5 minutes" is "3 to 5 minutes". Not dates or phone
+    // numbers: those with more than one dash are skipped by the lookarounds,
+    // a local number like "555-1234" by its three and four digits.
+    .replace(new RegExp(`(?<![\\d.-])(${NUMBER})\\s?[-–]\\s?(${NUMBER})(?![\\d.-])`, 'g'), (match: string, from: string, to: string) =>
+      /^\d{3}$/.test(from) && /^\d{4}$/.test(to) ? match : `${from} to ${to}`)
+    .replace(/\s&\s/g, ' and ');
+}
+
+/** Turns one segment of Markdown model output into text for the speech engine. Returns '' if nothing is left to say. */
+export function normalizeForSpeech(text: string, options: SpeechNormalizeOptions = {}): string {
+  const spoken = verbalize(stripMarkdown(stripCode(text, options.codeBlocks ?? 'announce')));
+  return spoken
+    // A line break is a pause: list items and headings end without punctuation.
+    .replace(/([^.!?,;:\s])[ \t]*\n+\s*/g, '$1. ')
+    .replace(/\s*\n+\s*/g, ' ')
+    .replace(/\s{2,}/g, ' ')
+    .replace(/\s+([,.!?;:])/g, '$1')
+    .trim();
+}
+
+/**
+ * Turns one segment of Markdown model output into caption text: the Markdown
+ * syntax goes, but symbols, numbers, URLs and emoji stay as written, since
+ * captions are read, not heard.
+ */
+export function normalizeForCaption(text: string): string {
+  return stripMarkdown(stripCode(text, 'announce'), false)
+    // Captions run as one line: list items and headings get a full stop instead.
+    .replace(/([^.!?,;:\s])[ \t]*\n+\s*/g, '$1. ')
+    .replace(/\s*\n+\s*/g, ' ')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
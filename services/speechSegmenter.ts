@@ -0,0 +1,128 @@
+/**
+ * Turns a token stream into whole sentences for the voice.
+ *
+ * Model chunks end wherever the tokenizer happened to cut, often mid-word, and
+ * speaking each one as its own utterance makes the voice stutter. This buffers
+ * the stream and only releases text once a sentence (or, early in a reply, a
+ * long enough clause) is known to be complete. The last piece of the buffer is
+ * always held back: the next chunk may still extend it.
+ */
+
+// ICU's sentence rules break after any period followed by a space and a
+// capital, so "Dr. Smith" would be spoken as two utterances. These are glued
+// back together.
+const ABBREVIATION = /(?:^|[\s(])(?:mr|mrs|ms|dr|prof|sr|jr|st|mt|vs|etc|approx|no|fig|vol|e\.g|i\.e|a\.m|p\.m|u\.s|[a-z])\.$/i;
+// A list marker on its own, e.g. the "1." of "1. First step".
+const LIST_MARKER = /^\s*\d+[.)]$/;
+// A comma, semicolon, colon or dash followed by a space; a place to take a
+// breath when no sentence has ended yet.
+const CLAUSE_BREAK = /[,;:–—](?=\s)|\s[-–—](?=\s)/g;
+
+// The first utterance is released at the first clause past this length, so the
+// voice starts as soon as there is something worth saying. Later ones wait for
+// a real sentence end unless a sentence runs on past the second limit.
+const FIRST_CLAUSE_CHARS = 24;
+const CLAUSE_CHARS = 140;
+
+export interface SpeechSegmenter {
+  /** Adds streamed text and returns the segments that are now complete, if any. */
+  push(chunk: string): string[];
+  /** Returns whatever is still buffered. Call once the stream has closed. */
+  flush(): string[];
+}
+
+const count = (text: string, pattern: RegExp) => (text.match(pattern) || []).length;
+
+/** True while `text` has an open fenced block or inline code span, which must not be cut. */
+function insideCode(text: string): boolean {
+  const fences = count(text, /```/g);
+  if (fences % 2 === 1) return true;
+  return count(text.replace(/```/g, ''), /`/g) % 2 === 1;
+}
+
+/** Whether a segment boundary after `text` is a real one. */
+function canEndAt(text: string): boolean {
+  const trimmed = text.trimEnd();
+  if (!trimmed) return false;
+  if (insideCode(text)) return false;
+  if (ABBREVIATION.test(trimmed) || LIST_MARKER.test(trimmed)) return false;
+  return true;
+}
+
+/** Splits on sentence boundaries. Falls back to punctuation where Intl.Segmenter is missing (Firefox before 125). */
+function splitSentences(text: string, segmenter: Intl.Segmenter | null): string[] {
+  if (segmenter) return Array.from(segmenter.segment(text), (s) => s.segment);
+  return text.match(/[\s\S]*?(?:[.!?…]+["')\]]*\s+|\n\s*)|[\s\S]+$/g) || [];
+}
+
+/** Rejoins the raw boundaries that fall inside code, after abbreviations, or after a bare list number. */
+function mergeSegments(raw: string[]): string[] {
+  const merged: string[] = [];
+  let current = '';
+  for (const piece of raw) {
+    current += piece;
+    if (canEndAt(current)) {
+      merged.push(current);
+      current = '';
+    }
+  }
+  if (current) merged.push(current);
+  return merged;
+}
+
+/** The offset just past the last clause break in `text` that leaves at least `min` characters before it, or -1. */
+function lastClauseBreak(text: string, min: number): number {
+  let found = -1;
+  for (const match of text.matchAll(CLAUSE_BREAK)) {
+    const end = match.index! + match[0].length;
+    if (end >= min && !insideCode(text.slice(0, end))) found = end;
+  }
+  return found;
+}
+
+export function createSpeechSegmenter(locale?: string): SpeechSegmenter {
+  let segmenter: Intl.Segmenter | null = null;
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    try {
+      segmenter = new Intl.Segmenter(locale, { granularity: 'sentence' });
+    } catch {
+      // An unsupported locale tag; the punctuation fallback still works.
+    }
+  }
+
+  let buffer = '';
+  let emitted = 0;
+
+  const take = (segments: string[]) => {
+    const spoken = segments.map((s) => s.trim()).filter((s) => s.length > 0);
+    emitted += spoken.length;
+    return spoken;
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      const segments = mergeSegments(splitSentences(buffer, segmenter));
+      const ready = segments.slice(0, -1);
+      buffer = segments[segments.length - 1] ?? '';
+
+      // No sentence has ended yet: release a clause if this one is dragging on.
+      const limit = emitted + ready.length === 0 ? FIRST_CLAUSE_CHARS : CLAUSE_CHARS;
+      if (buffer.length >= limit) {
+        const cut = lastClauseBreak(buffer, Math.min(limit, FIRST_CLAUSE_CHARS));
+        if (cut > 0) {
+          ready.push(buffer.slice(0, cut));
+          buffer = buffer.slice(cut);
+        }
+      }
+      return take(ready);
+    },
+
+    flush() {
+      const rest = buffer;
+      buffer = '';
+      emitted = 0;
+      return take([rest]);
+    },
+  };
+}
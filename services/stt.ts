@@ -0,0 +1,146 @@
+/**
+ * Speech-to-text engines behind hooks/useSpeech.ts.
+ *
+ * Every engine is shaped like the Web Speech API's SpeechRecognition — the
+ * same start/stop/abort lifecycle, the same end event, the same error codes —
+ * so the hook's standby and listening state machine, including its restart and
+ * back-off handling, runs unchanged whichever one is underneath.
+ */
+import { SttEngine } from '../types';
+import { createWhisperRecognizer } from './whisperStt';
+
+export type { SttEngine };
+
+/** One piece of recognized speech. Interim results are replaced by later ones until a final result arrives. */
+export interface RecognitionResult {
+  transcript: string;
+  isFinal: boolean;
+}
+
+/**
+ * The error codes engines report, borrowed from SpeechRecognitionErrorEvent:
+ * 'aborted' and 'no-speech' are routine, 'not-allowed' and 'audio-capture'
+ * mean the microphone is unusable, 'network' means the recognizer could not be
+ * reached.
+ */
+export type RecognitionErrorCode = string;
+
+export interface SpeechRecognizer {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((result: RecognitionResult) => void) | null;
+  onend: (() => void) | null;
+  onerror: ((error: RecognitionErrorCode) => void) | null;
+  /** Throws a DOMException named InvalidStateError while the previous session is still winding down. */
+  start(): void;
+  /** Ends the session, still delivering a result for what was heard so far. */
+  stop(): void;
+  /** Ends the session at once and discards it. */
+  abort(): void;
+}
+
+export interface SttOptions {
+  engine: SttEngine;
+  /** whisper.cpp server inference endpoint, for the 'whisper' engine. */
+  whisperUrl: string;
+}
+
+// --- Web Speech API ---
+
+// Type definitions for the Web Speech API, which TypeScript's DOM library
+// does not include.
+interface NativeRecognitionResult {
+  readonly isFinal: boolean;
+  readonly [index: number]: { readonly transcript: string };
+}
+
+interface NativeRecognitionResultList {
+  readonly length: number;
+  item(index: number): NativeRecognitionResult;
+  [index: number]: NativeRecognitionResult;
+}
+
+interface NativeRecognitionEvent extends Event {
+  readonly resultIndex: number;
+  readonly results: NativeRecognitionResultList;
+}
+
+interface NativeRecognitionErrorEvent extends Event {
+  readonly error: string;
+}
+
+// Note: the spec exposes no way to query whether recognition is running, so
+// useSpeech tracks that itself in runningRef. An earlier version declared a
+// `state` field here and branched on it; no browser implements it, so every
+// guard read `undefined`, never stopped the running session, and the next
+// start() threw InvalidStateError on repeat.
+interface NativeRecognition extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: NativeRecognitionEvent) => void) | null;
+  onend: (() => void) | null;
+  onerror: ((event: NativeRecognitionErrorEvent) => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type NativeRecognitionConstructor = new () => NativeRecognition;
+
+declare global {
+  interface Window {
+    SpeechRecognition: NativeRecognitionConstructor;
+    webkitSpeechRecognition: NativeRecognitionConstructor;
+  }
+}
+
+// Chrome and Safari only expose the prefixed constructor.
+const NativeRecognitionAPI: NativeRecognitionConstructor | undefined =
+  typeof window !== 'undefined' ? window.SpeechRecognition || window.webkitSpeechRecognition : undefined;
+
+/** The browser's built-in recognizer. In Chrome this streams audio to a cloud service; Firefox has none at all. */
+function createWebSpeechRecognizer(): SpeechRecognizer {
+  const native = new NativeRecognitionAPI!();
+  const recognizer: SpeechRecognizer = {
+    get continuous() { return native.continuous; },
+    set continuous(value) { native.continuous = value; },
+    get interimResults() { return native.interimResults; },
+    set interimResults(value) { native.interimResults = value; },
+    get lang() { return native.lang; },
+    set lang(value) { native.lang = value; },
+    onresult: null,
+    onend: null,
+    onerror: null,
+    start: () => native.start(),
+    stop: () => native.stop(),
+    abort: () => native.abort(),
+  };
+
+  native.onresult = (event) => {
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      recognizer.onresult?.({ transcript: result[0].transcript, isFinal: result.isFinal });
+    }
+  };
+  native.onend = () => recognizer.onend?.();
+  native.onerror = (event) => recognizer.onerror?.(event.error);
+
+  return recognizer;
+}
+
+// --- Engine selection ---
+
+export function isSttSupported(engine: SttEngine): boolean {
+  if (engine === 'whisper') {
+    return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+  }
+  return !!NativeRecognitionAPI;
+}
+
+/** A recognizer for the chosen engine. Check isSttSupported first; this throws if the browser lacks the engine. */
+export function createRecognizer(options: SttOptions): SpeechRecognizer {
+  if (options.engine === 'whisper') return createWhisperRecognizer(options.whisperUrl);
+  return createWebSpeechRecognizer();
+}
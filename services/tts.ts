@@ -0,0 +1,247 @@
+/**
+ * Text-to-speech engines behind hooks/useSpeech.ts.
+ *
+ * The hook owns the sentence queue; an engine only ever speaks one sentence at
+ * a time and says when it is done. Both engines honour the same voice
+ * settings as far as they can, and both can be cancelled mid-sentence.
+ */
+import { TtsEngine, VoiceSettings } from '../types';
+import { voiceMatchesLanguage } from '../components/speechLanguages';
+
+export type { TtsEngine };
+
+export interface SpeakOptions {
+  voice: VoiceSettings;
+  /** BCP 47 tag, or '' for the browser's own locale. */
+  language: string;
+}
+
+export interface SpeechSynthesizer {
+  /** Speaks one sentence. `onEnd` runs once it has finished, or failed; never after cancel(). */
+  speak(text: string, options: SpeakOptions, onEnd: () => void): void;
+  /** Starts fetching a sentence that is about to be spoken, where the engine has anything to fetch. */
+  prefetch?(text: string, options: SpeakOptions): void;
+  /** Silences the current sentence and forgets anything prefetched. */
+  cancel(): void;
+  /** Cancels and lets go of the audio hardware. The synthesizer is not used again afterwards. */
+  dispose(): void;
+}
+
+export interface TtsOptions {
+  engine: TtsEngine;
+  /** Piper/Coqui-style server endpoint, for the 'http' engine. */
+  ttsUrl: string;
+}
+
+// --- Web Speech API ---
+
+const synthesis = typeof window !== 'undefined' ? window.speechSynthesis : undefined;
+
+/**
+ * An utterance of `text` in the configured voice. If that voice is not
+ * installed here, or none is set, `language` lets the browser pick one that at
+ * least speaks the right language.
+ */
+export function createUtterance(text: string, settings: VoiceSettings, language = ''): SpeechSynthesisUtterance {
+  const utterance = new SpeechSynthesisUtterance(text);
+  const installed = synthesis?.getVoices() ?? [];
+  // Chrome ignores utterance.lang when choosing a voice, so pick one outright.
+  const matching = language ? installed.filter((v) => voiceMatchesLanguage(v.lang, language)) : [];
+  const voice =
+    installed.find((v) => settings.voiceURI && v.voiceURI === settings.voiceURI) ??
+    matching.find((v) => v.default) ??
+    matching[0];
+  if (language) utterance.lang = language;
+  if (voice) {
+    utterance.voice = voice;
+    utterance.lang = voice.lang;
+  }
+  utterance.rate = settings.rate;
+  utterance.pitch = settings.pitch;
+  utterance.volume = settings.volume;
+  return utterance;
+}
+
+/** The browser's built-in voices. They sound different on every OS, and the audio itself is out of reach. */
+function createWebSpeechSynthesizer(): SpeechSynthesizer {
+  let current: SpeechSynthesisUtterance | null = null;
+
+  const cancel = () => {
+    if (current) {
+      current.onend = null;
+      current.onerror = null;
+      current = null;
+    }
+    if (window.speechSynthesis.speaking || window.speechSynthesis.pending) {
+      window.speechSynthesis.cancel();
+    }
+  };
+
+  return {
+    speak(text, { voice, language }, onEnd) {
+      const utterance = createUtterance(text, voice, language);
+      current = utterance;
+      const finish = () => {
+        if (current === utterance) current = null;
+        onEnd();
+      };
+      utterance.onend = finish;
+      utterance.onerror = finish;
+      window.speechSynthesis.speak(utterance);
+    },
+
+    cancel,
+    dispose: cancel,
+  };
+}
+
+// --- Local HTTP server ---
+
+/** The request for one sentence: the endpoint with `text` added, keeping any fixed parameters (speaker_id, …) already in it. */
+function requestUrl(endpoint: string, text: string): string {
+  const url = new URL(endpoint, window.location.href);
+  url.searchParams.set('text', text);
+  return url.toString();
+}
+
+/**
+ * Sends each sentence to a local Piper or Coqui TTS server (both answer
+ * `GET ?text=…` with a WAV) and plays the result through WebAudio. The same
+ * voice everywhere, and the raw audio passes through our own graph — which is
+ * where any future lip-sync would tap it.
+ *
+ * Volume and rate apply; pitch is the server's voice and cannot be changed
+ * here. Rate is a playback-speed change, so it shifts pitch a little too.
+ */
+function createHttpSynthesizer(endpoint: string): SpeechSynthesizer {
+  let context: AudioContext | null = null;
+  let controller = new AbortController();
+  // Sentences fetched ahead of time, so there is no gap between them while
+  // the server renders the next one.
+  let cache = new Map<string, Promise<AudioBuffer>>();
+  let current: AudioBufferSourceNode | null = null;
+
+  const audioContext = () => {
+    context ??= new AudioContext();
+    // Autoplay rules start a context suspended when no gesture preceded it.
+    if (context.state === 'suspended') context.resume().catch(() => {});
+    return context;
+  };
+
+  const cancel = () => {
+    controller.abort();
+    controller = new AbortController();
+    cache = new Map();
+    if (current) {
+      current.onended = null;
+      try {
+        current.stop();
+      } catch {
+        // Already finished.
+      }
+      current = null;
+    }
+  };
+
+  const load = (text: string): Promise<AudioBuffer> => {
+    let pending = cache.get(text);
+    if (!pending) {
+      const { signal } = controller;
+      pending = fetch(requestUrl(endpoint, text), { signal })
+        .then((response) => {
+          if (!response.ok) throw new Error(`TTS server error: ${response.status} ${response.statusText}`);
+          return response.arrayBuffer();
+        })
+        .then((data) => audioContext().decodeAudioData(data));
+      cache.set(text, pending);
+    }
+    return pending;
+  };
+
+  return {
+    speak(text, { voice }, onEnd) {
+      const { signal } = controller;
+      load(text)
+        .then((buffer) => {
+          cache.delete(text);
+          if (signal.aborted) return;
+          const ctx = audioContext();
+          const source = ctx.createBufferSource();
+          const gain = ctx.createGain();
+          source.buffer = buffer;
+          source.playbackRate.value = voice.rate;
+          gain.gain.value = voice.volume;
+          source.connect(gain).connect(ctx.destination);
+          source.onended = () => {
+            if (current === source) current = null;
+            onEnd();
+          };
+          current = source;
+          source.start();
+        })
+        .catch((error) => {
+          cache.delete(text);
+          if (signal.aborted) return;
+          console.error('TTS server request failed:', error);
+          onEnd();
+        });
+    },
+
+    prefetch(text) {
+      load(text).catch(() => {
+        // Reported when the sentence is actually spoken.
+      });
+    },
+
+    cancel,
+
+    dispose() {
+      cancel();
+      // Browsers cap how many contexts a page may hold open; one per engine
+      // change or voice preview would otherwise run into the cap.
+      context?.close().catch(() => {});
+      context = null;
+    },
+  };
+}
+
+// --- Captions only ---
+
+// Comfortable subtitle reading speed, in characters per second, and the least
+// time any caption stays up.
+const READING_CPS = 15;
+const MIN_CAPTION_MS = 1200;
+
+/**
+ * Says nothing: each sentence "lasts" as long as it takes to read, so the
+ * queue, the speaking state and barge-in behave exactly as with a voice, and
+ * captions advance at a readable pace. For users who cannot hear the reply.
+ */
+export function createCaptionSynthesizer(): SpeechSynthesizer {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const cancel = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  return {
+    speak(text, { voice }, onEnd) {
+      const duration = Math.max(MIN_CAPTION_MS, (text.length / READING_CPS) * 1000) / voice.rate;
+      timer = setTimeout(() => {
+        timer = null;
+        onEnd();
+      }, duration);
+    },
+
+    cancel,
+    dispose: cancel,
+  };
+}
+
+// --- Engine selection ---
+
+export function createSynthesizer(options: TtsOptions): SpeechSynthesizer {
+  if (options.engine === 'http') return createHttpSynthesizer(options.ttsUrl);
+  return createWebSpeechSynthesizer();
+}
@@ -0,0 +1,90 @@
+/**
+ * Voice activity detection on the microphone, for deciding when a spoken turn
+ * is over.
+ *
+ * Left to itself, the Web Speech recognizer ends a turn at the first pause it
+ * likes, which cuts people off mid-sentence, and in a noisy room it may never
+ * hear a pause at all. This watches the signal energy instead: a turn ends once
+ * the user has spoken for at least `minSpeechMs` and then been quieter than
+ * `threshold` for `silenceMs`. Two hard limits cover the cases energy alone
+ * cannot: nobody speaking at all, and a room that never goes quiet.
+ */
+import { VadSettings } from '../types';
+import { openMicrophone, createLevelMeter } from './microphone';
+
+const SAMPLE_MS = 50;
+const NO_SPEECH_MS = 8000;
+const MAX_TURN_MS = 30000;
+
+export type EndOfTurnReason = 'silence' | 'no-speech' | 'max-length';
+
+export interface VoiceActivityDetector {
+  /** Current microphone level (0 to 1), for the level meter. 0 until the microphone is open. */
+  level(): number;
+  /** Whether anything above the speech threshold has been heard yet. */
+  heardSpeech(): boolean;
+  close(): void;
+}
+
+/**
+ * Opens its own microphone stream (the recognizer's is out of reach) and calls
+ * `onEndOfTurn` once, when the turn is over. When `settings.enabled` is false
+ * it never ends the turn, but still measures the level and notices speech.
+ * Rejects when the microphone cannot be opened.
+ */
+export async function createVoiceActivityDetector(
+  settings: VadSettings,
+  onEndOfTurn: (reason: EndOfTurnReason) => void
+): Promise<VoiceActivityDetector> {
+  const stream = await openMicrophone();
+  const meter = createLevelMeter(stream);
+
+  const startedAt = Date.now();
+  let current = 0;
+  let speechStartedAt = 0;
+  let spokenMs = 0;
+  let lastVoiceAt = 0;
+  let ended = false;
+
+  const end = (reason: EndOfTurnReason) => {
+    if (ended) return;
+    ended = true;
+    onEndOfTurn(reason);
+  };
+
+  const sampler = setInterval(() => {
+    current = meter.level();
+    if (ended) return;
+
+    const now = Date.now();
+    if (current >= settings.threshold) {
+      if (!speechStartedAt) speechStartedAt = now;
+      lastVoiceAt = now;
+    } else if (speechStartedAt) {
+      // A burst shorter than minSpeechMs (a cough, a door) is not yet a turn;
+      // keep its length so a real sentence that follows still counts it.
+      spokenMs += lastVoiceAt - speechStartedAt;
+      speechStartedAt = 0;
+    }
+    if (!settings.enabled) return;
+
+    const voiced = spokenMs + (speechStartedAt ? now - speechStartedAt : 0);
+    if (voiced >= settings.minSpeechMs && !speechStartedAt && now - lastVoiceAt >= settings.silenceMs) {
+      end('silence');
+    } else if (!lastVoiceAt && now - startedAt >= NO_SPEECH_MS) {
+      end('no-speech');
+    } else if (now - startedAt >= MAX_TURN_MS) {
+      end('max-length');
+    }
+  }, SAMPLE_MS);
+
+  return {
+    level: () => current,
+    heardSpeech: () => lastVoiceAt > 0,
+    close() {
+      clearInterval(sampler);
+      meter.close();
+      stream.getTracks().forEach((track) => track.stop());
+    },
+  };
+}
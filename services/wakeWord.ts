@@ -0,0 +1,156 @@
+/**
+ * Finds a wake word in recognized speech.
+ *
+ * Recognizers rarely hear a made-up name the same way twice: "hey assistant"
+ * comes back as "hey assistance", "a assistant", "hey assist and". A plain
+ * substring test misses all of those, so each wake word is compared against
+ * every stretch of the transcript with a rough phonetic key and edit
+ * distance, and how close counts as a match is the user's sensitivity setting.
+ *
+ * The match also says where the wake word ended, so that "hey assistant what
+ * time is it" can go straight through as a question.
+ */
+
+export interface WakeWordMatch {
+  /** The configured wake word that matched. */
+  wakeWord: string;
+  /** What was said after the wake word in the same utterance, or ''. */
+  remainder: string;
+}
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** The trigger word setting holds one wake word or several, separated by commas. */
+export function parseWakeWords(setting: string): string[] {
+  return setting
+    .split(',')
+    .map((word) => word.trim())
+    .filter(Boolean);
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}']+/gu)) {
+    tokens.push({ text: match[0], start: match.index!, end: match.index! + match[0].length });
+  }
+  return tokens;
+}
+
+/**
+ * A crude sound-alike key for Latin-script words: letters that recognizers
+ * confuse with each other are folded together, doubled letters collapse and a
+ * final "s" (plurals, possessives: "computer's") is dropped. Other scripts pass through with only case and accents folded.
+ */
+function phoneticKey(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}]/gu, '')
+    .replace(/ph/g, 'f')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/ck|c|q/g, 'k')
+    .replace(/x/g, 'ks')
+    .replace(/z/g, 's')
+    .replace(/y/g, 'i')
+    .replace(/([^aeiou])h/g, '$1')
+    .replace(/e$/, '')
+    .replace(/s$/, '')
+    .replace(/(.)\1+/g, '$1');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
+
+/**
+ * Sensitivity 0 demands an exact (sound-alike) match; 1 accepts one that is
+ * 60% the same, and the default of 0.5 one that is 90% the same. The curve is
+ * steep at the low end because a single edit already turns one real word into
+ * another ("computer", "commuter"). Short wake words get less slack, since
+ * every edit is a bigger share of them and unrelated words start to match.
+ */
+function requiredSimilarity(sensitivity: number, key: string): number {
+  const clamped = Math.min(1, Math.max(0, sensitivity));
+  const slack = 0.4 * clamped * clamped;
+  return 1 - (key.length < 5 ? slack / 2 : slack);
+}
+
+// How much of a lost or misheard lead word still counts towards the match.
+const LEAD_WORD_CREDIT = 0.75;
+
+/**
+ * The earliest, then closest, wake word in `transcript`, or null if none is near enough.
+ *
+ * The lead word of a wake phrase ("hey", "ok") is short and unstressed, and
+ * recognizers mangle it or drop it: "a assistant", or just "assistant". The
+ * rest of the phrase is therefore also scored on its own, with the lead word
+ * counted as mostly heard. At the default sensitivity of 0.5:
+ *
+ *   "hey assistant"  <- "hey assistance", "hey assist and", "a assistant", "heyassistant"
+ *   "computer"       <- "computers", "computer's"; not "commuter lights", not "compute this"
+ */
+export function findWakeWord(transcript: string, wakeWords: string[], sensitivity: number): WakeWordMatch | null {
+  const tokens = tokenize(transcript);
+  const keyOf = (stretch: Token[]) => phoneticKey(stretch.map((t) => t.text).join(''));
+  let best: { wakeWord: string; start: number; end: number; score: number } | null = null;
+
+  for (const wakeWord of wakeWords) {
+    const key = phoneticKey(wakeWord);
+    if (!key) continue;
+    const words = tokenize(wakeWord);
+    const length = words.length;
+    const required = requiredSimilarity(sensitivity, key);
+    const rest = length > 1 ? keyOf(words.slice(1)) : '';
+    const withoutLead = (heard: string) =>
+      (similarity(heard, rest) * rest.length + LEAD_WORD_CREDIT * (key.length - rest.length)) / key.length;
+
+    // Recognizers split and merge words freely ("assist and", "heyassistant"),
+    // so stretches one word shorter or longer than the wake word are tried too.
+    for (let size = Math.max(1, length - 1); size <= length + 1; size++) {
+      for (let i = 0; i + size <= tokens.length; i++) {
+        const stretch = tokens.slice(i, i + size);
+        const heard = keyOf(stretch);
+        let score = similarity(heard, key);
+        if (rest) {
+          // The lead word lost entirely, or heard as something else.
+          score = Math.max(score, withoutLead(heard));
+          if (size > 1) score = Math.max(score, withoutLead(keyOf(stretch.slice(1))));
+        }
+        if (score < required) continue;
+        const start = stretch[0].start;
+        if (!best || start < best.start || (start === best.start && score > best.score)) {
+          best = { wakeWord, start, end: stretch[stretch.length - 1].end, score };
+        }
+      }
+    }
+  }
+
+  if (!best) return null;
+  const remainder = transcript
+    .slice(best.end)
+    .replace(/^[\s,.;:!?-]+/, '')
+    .trim();
+  return { wakeWord: best.wakeWord, remainder };
+}
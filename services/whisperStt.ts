@@ -0,0 +1,227 @@
+/**
+ * A speech recognizer that never leaves the machine: it records the
+ * microphone with MediaRecorder and posts each stretch of audio to a local
+ * whisper.cpp-compatible server (`whisper-server`, POST /inference), which
+ * answers with the transcript.
+ *
+ * Whisper transcribes finished clips, not a live stream, so both modes work on
+ * recorded windows. Listening records one clip, up to LISTEN_MAX_MS or until
+ * stop(). Standby (continuous) records back-to-back windows and transcribes
+ * each while the next one records; a wake phrase that straddles two windows
+ * can be missed, which the user experiences as simply having to say it again.
+ * A question would be cut up the same way, so useSpeech never listens for one
+ * in continuous mode with this engine.
+ */
+import type { SpeechRecognizer } from './stt';
+import { openMicrophone, microphoneErrorCode, createLevelMeter } from './microphone';
+
+const LISTEN_MAX_MS = 8000;
+const STANDBY_WINDOW_MS = 4000;
+const LEVEL_SAMPLE_MS = 100;
+// Whisper invents text for silence ("Thank you.", "[BLANK_AUDIO]"), and
+// transcribing an empty room every few seconds wastes the server's CPU, so a
+// window that never got louder than this is not sent at all.
+const SILENCE_RMS = 0.015;
+const WHISPER_SAMPLE_RATE = 16000;
+
+interface Session {
+  stopped: boolean;
+  aborted: boolean;
+  controller: AbortController;
+  /** Stops the window being recorded now, if any. */
+  endWindow: (() => void) | null;
+}
+
+/** Resamples any recording the browser can decode to the 16 kHz mono PCM WAV whisper.cpp expects. */
+async function toWav(recording: Blob): Promise<Blob> {
+  const decoder = new AudioContext();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await decoder.decodeAudioData(await recording.arrayBuffer());
+  } finally {
+    decoder.close().catch(() => {});
+  }
+
+  const offline = new OfflineAudioContext(1, Math.ceil(decoded.duration * WHISPER_SAMPLE_RATE), WHISPER_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  const samples = (await offline.startRendering()).getChannelData(0);
+
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, WHISPER_SAMPLE_RATE, true);
+  view.setUint32(28, WHISPER_SAMPLE_RATE * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+/** Whisper names Tagalog "tl"; browsers call it "fil". Everything else maps by its primary subtag. */
+function whisperLanguage(lang: string): string {
+  const primary = lang.toLowerCase().split(/[-_]/)[0];
+  if (!primary) return 'auto';
+  return primary === 'fil' ? 'tl' : primary;
+}
+
+async function transcribe(endpoint: string, recording: Blob, lang: string, signal: AbortSignal): Promise<string> {
+  const form = new FormData();
+  form.append('file', await toWav(recording), 'speech.wav');
+  form.append('response_format', 'json');
+  form.append('temperature', '0.0');
+  form.append('language', whisperLanguage(lang));
+
+  const response = await fetch(endpoint, { method: 'POST', body: form, signal });
+  if (!response.ok) {
+    throw new Error(`Whisper server error: ${response.status} ${await response.text()}`);
+  }
+  const data = await response.json();
+  // Drop the non-speech annotations whisper adds: [BLANK_AUDIO], (music), *coughs*.
+  return String(data?.text ?? '')
+    .replace(/\[[^\]]*\]|\([^)]*\)|\*[^*]*\*/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function recordWindow(stream: MediaStream, maxMs: number, session: Session): Promise<Blob> {
+  return new Promise((resolve) => {
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    const end = () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+    const timer = setTimeout(end, maxMs);
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      clearTimeout(timer);
+      session.endWindow = null;
+      resolve(new Blob(chunks, { type: recorder.mimeType }));
+    };
+    session.endWindow = end;
+    recorder.start();
+  });
+}
+
+export function createWhisperRecognizer(endpoint: string): SpeechRecognizer {
+  let current: Session | null = null;
+
+  const run = async (session: Session) => {
+    const continuous = recognizer.continuous;
+    const lang = recognizer.lang;
+
+    let stream: MediaStream;
+    try {
+      stream = await openMicrophone();
+    } catch (error) {
+      if (!session.aborted) recognizer.onerror?.(microphoneErrorCode(error));
+      return;
+    }
+    if (session.aborted) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    const meter = createLevelMeter(stream);
+    let peak = 0;
+    const sampler = setInterval(() => {
+      peak = Math.max(peak, meter.level());
+    }, LEVEL_SAMPLE_MS);
+    let failed = false;
+
+    const handle = async (recording: Blob, loudest: number) => {
+      if (session.aborted || failed) return;
+      if (loudest < SILENCE_RMS || recording.size === 0) {
+        if (!continuous) recognizer.onerror?.('no-speech');
+        return;
+      }
+      try {
+        const transcript = await transcribe(endpoint, recording, lang, session.controller.signal);
+        if (session.aborted) return;
+        if (transcript) recognizer.onresult?.({ transcript, isFinal: true });
+        else if (!continuous) recognizer.onerror?.('no-speech');
+      } catch (error) {
+        if (session.aborted) return;
+        failed = true;
+        console.error('Whisper transcription failed:', error);
+        recognizer.onerror?.('network');
+        session.endWindow?.();
+      }
+    };
+
+    try {
+      // Transcription of one window overlaps the recording of the next, so
+      // standby never goes deaf while the server works.
+      let transcribing: Promise<void> = Promise.resolve();
+      do {
+        if (session.aborted) break;
+        const recording = await recordWindow(stream, continuous ? STANDBY_WINDOW_MS : LISTEN_MAX_MS, session);
+        const loudest = Math.max(peak, meter.level());
+        peak = 0;
+        transcribing = transcribing.then(() => handle(recording, loudest));
+      } while (continuous && !session.stopped && !session.aborted && !failed);
+      await transcribing;
+    } finally {
+      clearInterval(sampler);
+      meter.close();
+      stream.getTracks().forEach((track) => track.stop());
+    }
+  };
+
+  const recognizer: SpeechRecognizer = {
+    continuous: false,
+    interimResults: false,
+    lang: '',
+    onresult: null,
+    onend: null,
+    onerror: null,
+
+    start() {
+      if (current) throw new DOMException('Recognition has already started', 'InvalidStateError');
+      const session: Session = { stopped: false, aborted: false, controller: new AbortController(), endWindow: null };
+      current = session;
+      run(session).finally(() => {
+        // An aborted session has already been replaced; its end is nobody's news.
+        if (current !== session) return;
+        current = null;
+        recognizer.onend?.();
+      });
+    },
+
+    stop() {
+      if (!current) return;
+      current.stopped = true;
+      current.endWindow?.();
+    },
+
+    // Lets go of the session at once rather than when its recorder and any
+    // request in flight have wound down, so an immediate start() succeeds.
+    abort() {
+      if (!current) return;
+      current.aborted = true;
+      current.controller.abort();
+      current.endWindow?.();
+      current = null;
+    },
+  };
+
+  return recognizer;
+}
@@ -8,14 +8,56 @@ export enum MessageRole {
 export interface ChatMessage {
   role: MessageRole;
   content: string;
+  /** Set on an assistant reply that was cut off (barge-in, Stop, a newer message) before it finished. */
+  interrupted?: boolean;
+  /** Pictures sent with a user message, as data: URLs, for models with vision. */
+  images?: string[];
+  /** The model that wrote an assistant reply, when it was not the one the conversation was using. */
+  model?: string;
+  /**
+   * The other versions of this turn, from regenerating a reply or editing a
+   * question, each with the turns that followed it. See services/messageBranches.ts.
+   */
+  alternatives?: ChatMessage[][];
+  /** Where this version sits among all of them, counting from 0; `alternatives` fill the other places in order. */
+  version?: number;
 }
 
-export interface OllamaModel {
+/** Overrides of the model settings for a single reply, e.g. to regenerate an answer with another model. */
+export interface ReplyOptions {
+  model?: string;
+  temperature?: number;
+}
+
+/** One running chat with the assistant, as kept in IndexedDB. See services/conversationStore.ts. */
+export interface Conversation {
+  id: string;
+  /** The opening user message, trimmed, so a saved conversation can be told apart at a glance. */
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  model: string;
+  /** The persona that was active when the conversation last moved on, if any. */
+  persona?: string;
+  messages: ChatMessage[];
+}
+
+/** A model the server offers. Ollama also reports its size and date; OpenAI-style servers give only the name. */
+export interface LlmModel {
   name: string;
-  modified_at: string;
-  size: number;
+  modified_at?: string;
+  /** Bytes on disk. */
+  size?: number;
+  details?: {
+    family?: string;
+    parameter_size?: string;
+    quantization_level?: string;
+  };
 }
 
+/** Which API the model server speaks. See services/llmProvider.ts. */
+export type LlmProviderKind = 'ollama' | 'openai';
+
 /** Which scene is rendered behind the hologram. See components/backdropPresets.ts. */
 export type BackdropTheme =
   | 'nature'
@@ -27,11 +69,115 @@ export type BackdropTheme =
   | 'space'
   | 'futuristic';
 
+/** Which speech-to-text engine listens. See services/stt.ts. */
+export type SttEngine = 'webspeech' | 'whisper';
+
+/** Which text-to-speech engine speaks. See services/tts.ts. */
+export type TtsEngine = 'webspeech' | 'http';
+
+/** Whether replies are captioned: not at all, alongside the voice, or instead of it. */
+export type CaptionMode = 'off' | 'on' | 'only';
+
+/** How replies are voiced. Applied to every utterance; see services/tts.ts. */
+export interface VoiceSettings {
+  /** SpeechSynthesisVoice.voiceURI, or '' for the browser's default voice. */
+  voiceURI: string;
+  /** 0.5 to 2, where 1 is the voice's normal speed. */
+  rate: number;
+  /** 0 to 2, where 1 is the voice's normal pitch. */
+  pitch: number;
+  /** 0 to 1. */
+  volume: number;
+}
+
+/** When a spoken turn counts as finished. See services/vad.ts. */
+export interface VadSettings {
+  /** Off leaves the end of a turn to the recognizer itself. */
+  enabled: boolean;
+  /** How long the user must be quiet before the turn ends. */
+  silenceMs: number;
+  /** Speech shorter than this (a cough, a click) does not count as a turn. */
+  minSpeechMs: number;
+  /** Microphone RMS level (0 to 1) above which the input counts as speech. */
+  threshold: number;
+}
+
+/**
+ * Generation options beyond temperature. Any left unset is up to the server,
+ * which usually means the model's own defaults.
+ */
+export interface SamplingOptions {
+  /** Samples only from the likeliest tokens whose probabilities add up to this (0 to 1). */
+  topP?: number;
+  /** Samples only from this many of the likeliest tokens. */
+  topK?: number;
+  /** The context window to allocate, in tokens. Ollama's default is far below what most models can take. */
+  numCtx?: number;
+  /** The most tokens to generate; -1 for no limit. */
+  numPredict?: number;
+  /** Fixed, the same prompt and settings give the same answer every time. */
+  seed?: number;
+  /** Above 1 discourages repeating recent tokens. */
+  repeatPenalty?: number;
+  /** Generation stops at any of these. */
+  stop?: string[];
+  /** How long the model stays loaded after a request, e.g. "10m"; "-1" keeps it loaded, "0" unloads it at once. Ollama only. */
+  keepAlive?: string;
+}
+
+/** The settings a persona bundles; switching to it copies them over the live ones. */
+export interface PersonaSettings {
+  systemPrompt: string;
+  selectedModel: string;
+  temperature: number;
+  think: boolean;
+  sampling: SamplingOptions;
+  voice: VoiceSettings;
+  triggerWord: string;
+  backdropTheme: BackdropTheme;
+}
+
+/** A named assistant setup, e.g. "Receptionist" or "Tech support". See services/personas.ts. */
+export interface Persona extends PersonaSettings {
+  id: string;
+  name: string;
+  /** Said in the persona's voice right after switching to it; '' for a generic hello. */
+  greeting: string;
+}
+
 export interface Settings {
-  ollamaUrl: string;
+  llmProvider: LlmProviderKind;
+  /** The model server's address, e.g. http://localhost:11434 for Ollama. */
+  llmUrl: string;
   selectedModel: string;
   systemPrompt: string;
   temperature: number;
+  /** Lets models that can reason before answering do so; ignored by the rest. */
+  think: boolean;
+  sampling: SamplingOptions;
+  /** One wake word, or several separated by commas. See services/wakeWord.ts. */
   triggerWord: string;
+  /** 0 to 1: how loosely a heard phrase may resemble a wake word and still count. */
+  wakeWordSensitivity: number;
+  /** After a spoken answer, how long to listen for a follow-up without the wake word. 0 turns it off. */
+  followUpSeconds: number;
   backdropTheme: BackdropTheme;
+  voice: VoiceSettings;
+  /** BCP 47 tag for speech recognition and synthesis, or '' for the browser's own locale. See components/speechLanguages.ts. */
+  language: string;
+  /** Tells the model to answer in `language`, whatever it was asked in. */
+  respondInLanguage: boolean;
+  /** Each language's own trigger word; `triggerWord` always holds the one for the current language. */
+  triggerWordsByLanguage: Record<string, string>;
+  sttEngine: SttEngine;
+  /** The whisper.cpp server's inference endpoint, for the 'whisper' engine. */
+  whisperUrl: string;
+  vad: VadSettings;
+  ttsEngine: TtsEngine;
+  /** A Piper or Coqui TTS server endpoint, for the 'http' engine. */
+  ttsUrl: string;
+  captions: CaptionMode;
+  personas: Persona[];
+  /** The persona last switched to, or null. Settings changed since then are not written back to it. */
+  activePersonaId: string | null;
 }
\ No newline at end of file